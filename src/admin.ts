@@ -0,0 +1,39 @@
+import { connect, getPool } from './config/db';
+import Logger from './config/logger'
+import * as User from './app/models/user.model';
+
+// Command line entry point for managing admins, who may use the backdoor endpoints. See `npm run admin -- help`
+const usage = 'Usage: npm run admin -- [list | grant <email> | revoke <email>]';
+
+async function main() {
+    const [command = 'list', email] = process.argv.slice(2);
+    await connect();
+    try {
+        switch (command) {
+            case 'list':
+                for (const adminEmail of await User.getAdminEmails()) {
+                    Logger.info(adminEmail);
+                }
+                break;
+            case 'grant':
+            case 'revoke':
+                if (!email) {
+                    throw new Error(usage);
+                }
+                if (!await User.setUserRoleByEmail(email, command === 'grant' ? 'admin' : 'user')) {
+                    throw new Error(`No user with email ${email}`);
+                }
+                Logger.info(`${command === 'grant' ? 'Granted' : 'Revoked'} admin role for ${email}`);
+                break;
+            default:
+                Logger.info(usage);
+        }
+    } finally {
+        await getPool().end();
+    }
+}
+
+main().catch(err => {
+    Logger.error(err);
+    process.exitCode = 1;
+});
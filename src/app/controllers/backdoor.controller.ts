@@ -1,55 +1,56 @@
-import {Request, Response} from "express";
-import Logger from '../../config/logger';
+import {Request, Response, NextFunction} from "express";
 import * as Backdoor from '../models/backdoor.model';
 
-const resetDb = async (req: Request, res: Response):Promise<void> => {
+const resetDb = async (req: Request, res: Response, next: NextFunction):Promise<void> => {
     try {
         await Backdoor.resetDb();
         res.statusMessage = "OK";
         res.status(200).send();
     } catch (err) {
-        Logger.error(err);
-        res.statusMessage = "Internal Server Error";
-        res.status(500).send();
+        next(err);
     }
 };
 
-const resample = async (req: Request, res: Response):Promise<void> => {
+const resample = async (req: Request, res: Response, next: NextFunction):Promise<void> => {
     try {
         await Backdoor.loadData();
         res.statusMessage = "Created";
         res.status(201).send();
     } catch (err) {
-        Logger.error(err);
-        res.statusMessage = "Internal Server Error";
-        res.status(500).send();
+        next(err);
     }
 };
 
-const reload = async (req: Request, res: Response):Promise<void> => {
+const reload = async (req: Request, res: Response, next: NextFunction):Promise<void> => {
     try {
         await Backdoor.resetDb();
         await Backdoor.loadData();
         res.statusMessage = "Created";
         res.status(201).send();
     } catch (err) {
-        Logger.error(err);
-        res.statusMessage = "Internal Server Error";
-        res.status(500).send();
+        next(err);
     }
 };
 
-const executeSql = async (req: Request, res: Response):Promise<void> => {
+const executeSql = async (req: Request, res: Response, next: NextFunction):Promise<void> => {
     const sqlCommand = String(req.body);
     try {
         const results = await Backdoor.executeSql(sqlCommand);
         res.statusMessage = 'OK';
         res.status(200).json(results);
     } catch (err) {
-        if (!err.hasBeenLogged) Logger.error(err);
-        res.statusMessage = 'Internal Server Error';
-        res.status(500).send();
+        next(err);
     }
 };
 
-export {resetDb, resample, reload, executeSql}
+const recomputeAggregates = async (req: Request, res: Response, next: NextFunction):Promise<void> => {
+    try {
+        const updated = await Backdoor.recomputeAggregates();
+        res.statusMessage = 'OK';
+        res.status(200).json({gamesUpdated: updated});
+    } catch (err) {
+        next(err);
+    }
+};
+
+export {resetDb, resample, reload, executeSql, recomputeAggregates}
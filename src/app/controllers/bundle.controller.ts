@@ -0,0 +1,114 @@
+import { Request, Response, NextFunction } from "express";
+import * as Bundle from "../models/bundle.model";
+import { AuthenticatedRequest } from "../middleware/game.middleware";
+import { BundleRequest } from "../middleware/bundle.middleware";
+import { validate } from "../services/validator";
+import { resolveCurrency } from "../services/currency";
+import schemas from "../resources/schemas.json";
+import { NotFoundError, ValidationError } from "../services/errors";
+
+/**
+ * Lists bundles with their savings, priced in the requested currency.
+ */
+const getBundles = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+        const validationResult = await validate(schemas.bundle_search, req.query);
+        if (validationResult !== true) {
+            throw new ValidationError(validationResult);
+        }
+        const params: Bundle.GetBundlesParams = {
+            startIndex: req.query.startIndex ? parseInt(req.query.startIndex as string, 10) : 0,
+            count: req.query.count ? parseInt(req.query.count as string, 10) : 2000000000,
+            creatorId: req.query.creatorId ? parseInt(req.query.creatorId as string, 10) : null,
+            gameId: req.query.gameId ? parseInt(req.query.gameId as string, 10) : null,
+            currency: resolveCurrency(req.query.currency ? req.query.currency.toString() : undefined)
+        };
+        const result = await Bundle.getBundles(params);
+        res.status(200).json(result);
+    } catch (err) {
+        next(err);
+    }
+};
+
+/**
+ * Retrieves a bundle and its games, priced in the requested currency.
+ */
+const getBundle = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+        const bundleId = (req as BundleRequest).bundleId;
+        const currency = resolveCurrency(req.query.currency ? req.query.currency.toString() : undefined);
+        const bundle = await Bundle.getBundleById(bundleId, currency);
+        if (!bundle) {
+            throw new NotFoundError("No bundle found with id", "BUNDLE_NOT_FOUND");
+        }
+        res.status(200).json(bundle);
+    } catch (err) {
+        next(err);
+    }
+};
+
+/**
+ * Adds a new bundle of the authenticated user's games.
+ */
+const addBundle = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+        const validationResult = await validate(schemas.bundle_post, req.body);
+        if (validationResult !== true) {
+            throw new ValidationError(validationResult);
+        }
+        const { title, description, price, gameIds } = req.body;
+        const userId = (req as AuthenticatedRequest).user.id;
+        const bundleId = await Bundle.createBundle(userId, { title, description, price, gameIds });
+        res.status(201).json({ bundleId });
+    } catch (err) {
+        next(err);
+    }
+};
+
+/**
+ * Edits an existing bundle.
+ */
+const editBundle = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+        const { bundleId, user } = req as BundleRequest;
+        const validationResult = await validate(schemas.bundle_patch, req.body);
+        if (validationResult !== true) {
+            throw new ValidationError(validationResult);
+        }
+        if (Object.keys(req.body).length === 0) {
+            throw new ValidationError("No update fields provided", "NO_UPDATE_FIELDS");
+        }
+        await Bundle.editBundle(user.id, bundleId, req.body);
+        res.status(200).send();
+    } catch (err) {
+        next(err);
+    }
+};
+
+/**
+ * Deletes a bundle.
+ */
+const deleteBundle = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+        const { bundleId, user } = req as BundleRequest;
+        await Bundle.deleteBundle(user.id, bundleId);
+        res.status(200).send();
+    } catch (err) {
+        next(err);
+    }
+};
+
+/**
+ * Buys a bundle, marking each of its games the user doesn't own yet as owned.
+ */
+const buyBundle = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+        const { bundleId, user } = req as BundleRequest;
+        const gameIds = await Bundle.buyBundle(user.id, bundleId);
+        res.status(200).json({ gameIds });
+    } catch (err) {
+        next(err);
+    }
+};
+
+export { getBundles, getBundle, addBundle, editBundle, deleteBundle, buyBundle };
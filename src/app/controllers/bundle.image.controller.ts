@@ -0,0 +1,51 @@
+import { Request, Response, NextFunction } from "express";
+import * as BundleImage from "../models/bundle.image.model";
+import { BundleRequest } from "../middleware/bundle.middleware";
+import { validate } from "../services/validator";
+import schemas from "../resources/schemas.json";
+import { NotFoundError, ValidationError } from "../services/errors";
+
+/**
+ * Gets the cover image of the specified bundle, optionally resized to a thumb or medium variant.
+ */
+const getImage = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+        const bundleId = (req as BundleRequest).bundleId;
+        const queryValidation = await validate(schemas.image_get, req.query);
+        if (queryValidation !== true) {
+            throw new ValidationError(queryValidation);
+        }
+        const size = req.query.size ? req.query.size.toString() : "full";
+        const imageResult = await BundleImage.getBundleImage(bundleId, size);
+        if (!imageResult) {
+            throw new NotFoundError("Image not found", "IMAGE_NOT_FOUND");
+        }
+        res.set("Content-Type", imageResult.contentType);
+        res.status(200).send(imageResult.data);
+    } catch (err) {
+        next(err);
+    }
+};
+
+/**
+ * Sets (or replaces) the cover image of the specified bundle.
+ */
+const setImage = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+        const { bundleId, user } = req as BundleRequest;
+        const contentType = req.header("Content-Type");
+        const headerValidation = await validate(schemas.image_upload, { contentType });
+        if (headerValidation !== true) {
+            throw new ValidationError(headerValidation, "UNSUPPORTED_IMAGE_TYPE");
+        }
+        if (!Buffer.isBuffer(req.body)) {
+            throw new ValidationError("Invalid image data", "INVALID_IMAGE_DATA");
+        }
+        const isNew = await BundleImage.setBundleImage(user.id, bundleId, req.body, contentType!);
+        res.status(isNew ? 201 : 200).send();
+    } catch (err) {
+        next(err);
+    }
+};
+
+export { getImage, setImage };
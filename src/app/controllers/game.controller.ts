@@ -1,23 +1,21 @@
-import { Request, Response } from "express";
-import Logger from "../../config/logger";
+import { Request, Response, NextFunction } from "express";
 import * as Game from "../models/game.model";
 import * as User from "../models/user.model";
 import { AuthenticatedRequest, GameRequest } from "../middleware/game.middleware";
 import { validate } from "../services/validator";
 import schemas from "../resources/schemas.json";
+import { ForbiddenError, NotFoundError, UnauthorizedError, ValidationError } from "../services/errors";
+import { resolveCurrency, resolveRegionalPrices } from "../services/currency";
 
 /**
  * Retrieves all games.
  */
-const getAllGames = async (req: Request, res: Response): Promise<void> => {
+const getAllGames = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
     try {
         // Validate query parameters against the game_search schema.
-        try {
-            const validationResult = await validate(schemas.game_search, req.query);
-            if (validationResult !== true) {
-            res.statusMessage = validationResult;
-            res.status(400).send();
-            return;
+        const validationResult = await validate(schemas.game_search, req.query);
+        if (validationResult !== true) {
+            throw new ValidationError(validationResult);
         }
         // Convert validated query params from strings to numbers where applicable.
         // Provide default values for all numeric parameters
@@ -27,6 +25,11 @@ const getAllGames = async (req: Request, res: Response): Promise<void> => {
         const creatorId = req.query.creatorId ? parseInt(req.query.creatorId as string, 10) : null;
         const reviewerId = req.query.reviewerId ? parseInt(req.query.reviewerId as string, 10) : null;
         const q = req.query.q ? req.query.q.toString() : undefined;
+        const cursor = req.query.cursor ? req.query.cursor.toString() : undefined;
+        const currency = resolveCurrency(req.query.currency ? req.query.currency.toString() : undefined);
+        if (cursor && req.query.startIndex) {
+            throw new ValidationError("cursor cannot be combined with startIndex", "INVALID_CURSOR");
+        }
 
         let genreIds: number[] | undefined;
         if (req.query.genreIds) {
@@ -50,6 +53,18 @@ const getAllGames = async (req: Request, res: Response): Promise<void> => {
             }
         }
 
+        let tagIds: number[] | undefined;
+        if (req.query.tagIds) {
+            if (Array.isArray(req.query.tagIds)) {
+                tagIds = req.query.tagIds.map((p) => parseInt(String(p), 10));
+            } else {
+                tagIds = (req.query.tagIds as string)
+                    .split(",")
+                    .map((p) => parseInt(p.trim(), 10));
+            }
+        }
+        const tagMatch = req.query.tagMatch ? req.query.tagMatch.toString() : "ANY";
+
         const sortBy = req.query.sortBy ? req.query.sortBy.toString() : "CREATED_ASC";
         const ownedByMe = req.query.ownedByMe === "true";
         const wishlistedByMe = req.query.wishlistedByMe === "true";
@@ -57,17 +72,13 @@ const getAllGames = async (req: Request, res: Response): Promise<void> => {
         // If filtering by ownedByMe or wishlistedByMe, require a valid token.
         let user = null;
         if (ownedByMe || wishlistedByMe) {
-        const token = req.get("X-Authorization");
+            const token = req.get("X-Authorization");
             if (!token) {
-                res.statusMessage = "Unauthorized: No token provided";
-                res.status(401).send();
-                return;
+                throw new UnauthorizedError("Unauthorized: No token provided");
             }
             user = await User.getUserByToken(token);
             if (!user) {
-                res.statusMessage = "Unauthorized";
-            res.status(401).send();
-            return;
+                throw new UnauthorizedError();
             }
         } else {
             // Optionally attach user if token is provided.
@@ -83,205 +94,152 @@ const getAllGames = async (req: Request, res: Response): Promise<void> => {
             q,
             genreIds,
             platformIds,
+            tagIds,
+            tagMatch,
             price,
             creatorId,
             reviewerId,
             sortBy,
             ownedByMe,
             wishlistedByMe,
-            userId: user ? user.id : undefined
+            userId: user ? user.id : undefined,
+            cursor,
+            currency
         };
 
         const result = await Game.getGames(params);
         res.status(200).json(result);
     } catch (err) {
-        Logger.error(err);
-        if (err instanceof Error && err.message.includes("Invalid")) {
-            res.status(400).send(err.message);
-        } else {
-            res.statusMessage = "Internal Server Error";
-            res.status(500).send();
-        }
+        next(err);
     }
 };
 
 /**
- * Retrieves a game by id.
+ * Retrieves a game by id, priced in the requested currency.
  */
-const getGame = async (req: Request, res: Response): Promise<void> => {
+const getGame = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
     try {
         const gameId = (req as GameRequest).gameId;
-        const game = await Game.getGameById(gameId);
+        const currency = resolveCurrency(req.query.currency ? req.query.currency.toString() : undefined);
+        const game = await Game.getGameById(gameId, currency);
         if (!game) {
-            res.statusMessage = "No game found with the specified id";
-            res.status(404).send();
-            return;
+            throw new NotFoundError("No game found with the specified id", "GAME_NOT_FOUND");
         }
         res.status(200).json(game);
     } catch (err) {
-        Logger.error(err);
-        res.statusMessage = "Internal Server Error";
-        res.status(500).send();
+        next(err);
     }
 };
 
 /**
  * Adds a new game.
  */
-const addGame = async (req: Request, res: Response): Promise<void> => {
+const addGame = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
     try {
         const authReq = req as AuthenticatedRequest;
         if (!authReq.user) {
-            res.statusMessage = "Unauthorized: No token provided";
-            res.status(401).send();
-            return;
+            throw new UnauthorizedError("Unauthorized: No token provided");
         }
         // Validate request body against the game_post schema.
         const validationResult = await validate(schemas.game_post, req.body);
         if (validationResult !== true) {
-            res.statusMessage = validationResult;
-            res.status(400).send();
-            return;
+            throw new ValidationError(validationResult);
+        }
+        const { title, description, genreId, genreIds, price, platformIds, tagIds } = req.body;
+        const gameData: Game.PostGame = { title, description, genreId, genreIds, price, platformIds, tagIds };
+        if (req.body.regionalPrices !== undefined) {
+            gameData.regionalPrices = resolveRegionalPrices(req.body.regionalPrices);
         }
-        const { title, description, genreId, price, platformIds } = req.body;
-        const gameData: Game.PostGame = { title, description, genreId, price, platformIds };
         const newGameId = await Game.createGame(gameData, authReq.user.id);
         res.status(201).json({ gameId: newGameId });
-    } catch (err: any) {
-        if (err.message === "Game title already exists") {
-            res.status(403).send(err.message);
-        } else if (
-            err.message.includes("Data too long for column") ||
-            err.message.includes("Invalid genreId") ||
-            err.message.includes("One or more platformIds") ||
-            err.message.includes("At least one platform") ||
-            err.message.includes("Type Error")
-        ) {
-            res.status(400).send(err.message);
-        } else {
-            Logger.error(err);
-            res.statusMessage = "Internal Server Error";
-            res.status(500).send();
-        }
+    } catch (err) {
+        next(err);
     }
 };
 
 /**
  * Edits an existing game.
  */
-const editGame = async (req: Request, res: Response): Promise<void> => {
+const editGame = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
     try {
         const { gameId, user } = req as GameRequest;
         // Validate request body against the game_patch schema.
         const validationResult = await validate(schemas.game_patch, req.body);
         if (validationResult !== true) {
-            res.statusMessage = validationResult;
-            res.status(400).send();
-            return;
+            throw new ValidationError(validationResult);
         }
-        const { title, description, genreId, price, platformIds } = req.body;
+        const { title, description, genreId, genreIds, price, platformIds, tagIds, regionalPrices } = req.body;
         const updatedData: {
             title?: string;
             description?: string;
             genreId?: number;
+            genreIds?: number[];
             price?: number;
             platforms?: number[];
+            tagIds?: number[];
+            regionalPrices?: { [currency: string]: number };
         } = {};
         if (title !== undefined) updatedData.title = title;
         if (description !== undefined) updatedData.description = description;
         if (genreId !== undefined) updatedData.genreId = genreId;
+        if (genreIds !== undefined) updatedData.genreIds = genreIds;
         if (price !== undefined) updatedData.price = price;
         if (platformIds !== undefined) updatedData.platforms = platformIds;
+        if (tagIds !== undefined) updatedData.tagIds = tagIds;
+        if (regionalPrices !== undefined) updatedData.regionalPrices = resolveRegionalPrices(regionalPrices);
 
         if (Object.keys(updatedData).length === 0) {
-            res.statusMessage = "No update fields provided";
-            res.status(400).send();
-            return;
+            throw new ValidationError("No update fields provided", "NO_UPDATE_FIELDS");
         }
 
         await Game.editGame(gameId, updatedData, user.id);
         res.status(200).send();
-    } catch (err: any) {
-        if (err.message === "No game found") {
-            res.status(404).send(err.message);
-        } else if (err.message === "Only the creator of a game may change it") {
-            res.status(403).send(err.message);
-        } else if (err.message === "Game title already exists") {
-            res.status(403).send(err.message);
-        } else if (
-            err.message.includes("Invalid genreId") ||
-            err.message.includes("platforms") ||
-            err.message.includes("platformIds must be a non-empty array") ||
-            err.message.includes("One or more platformIds are invalid") ||
-            err.message.includes("Type Error")
-        ) {
-            res.status(400).send(err.message);
-        } else {
-            Logger.error(err);
-            res.status(500).send();
-        }
+    } catch (err) {
+        next(err);
     }
 };
 
 /**
  * Deletes a game.
  */
-const deleteGame = async (req: Request, res: Response): Promise<void> => {
+const deleteGame = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
     try {
         const { gameId, user } = req as GameRequest;
         const game = await Game.getGameById(gameId);
         if (!game) {
-            res.statusMessage = "Not Found. No game found with id";
-            res.status(404).send();
-            return;
+            throw new NotFoundError("No game found with id", "GAME_NOT_FOUND");
         }
         if (game.creatorId !== user.id) {
-            res.statusMessage = "Forbidden. Only the creator of a game may delete it";
-            res.status(403).send();
-            return;
+            throw new ForbiddenError("Only the creator of a game may delete it", "NOT_GAME_CREATOR");
         }
         await Game.deleteGameById(gameId);
         res.status(200).send();
-    } catch (err: any) {
-        if (err.message === "Game has reviews") {
-            res.statusMessage = "Forbidden. Can not delete a game with one or more reviews";
-            res.status(403).send(err.message);
-        } else if (err.message === "No game found") {
-            res.statusMessage = "Not Found. No game found with id";
-            res.status(404).send(err.message);
-        } else {
-            Logger.error(err);
-            res.statusMessage = "Internal Server Error";
-            res.status(500).send();
-        }
+    } catch (err) {
+        next(err);
     }
 };
 
 /**
  * Retrieves all genres.
  */
-const getGenres = async (req: Request, res: Response): Promise<void> => {
+const getGenres = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
     try {
         const genres = await Game.getAllGenres();
         res.status(200).json(genres);
     } catch (err) {
-        Logger.error(err);
-        res.statusMessage = "Internal Server Error";
-        res.status(500).send();
+        next(err);
     }
 };
 
 /**
  * Retrieves all platforms.
  */
-const getPlatforms = async (req: Request, res: Response): Promise<void> => {
+const getPlatforms = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
     try {
         const platforms = await Game.getAllPlatforms();
         res.status(200).json(platforms);
     } catch (err) {
-        Logger.error(err);
-        res.statusMessage = "Internal Server Error";
-        res.status(500).send();
+        next(err);
     }
 };
 
@@ -0,0 +1,126 @@
+import { Request, Response, NextFunction } from "express";
+import * as Gallery from "../models/game.gallery.model";
+import { GameRequest } from "../middleware/game.middleware";
+import { validate } from "../services/validator";
+import schemas from "../resources/schemas.json";
+import { NotFoundError, ValidationError } from "../services/errors";
+
+/**
+ * Parses the :imageId route parameter.
+ */
+const parseImageId = (req: Request): number => {
+    const imageId = parseInt(req.params.imageId, 10);
+    if (isNaN(imageId) || imageId < 0) {
+        throw new ValidationError("Invalid image id", "INVALID_IMAGE_ID");
+    }
+    return imageId;
+};
+
+/**
+ * Lists the screenshots in a game's gallery, in display order.
+ */
+const getImages = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+        const gameId = (req as GameRequest).gameId;
+        const images = await Gallery.getGalleryImages(gameId);
+        res.status(200).json(images);
+    } catch (err) {
+        next(err);
+    }
+};
+
+/**
+ * Gets one screenshot from a game's gallery, optionally resized to a thumb or medium variant.
+ */
+const getImage = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+        const gameId = (req as GameRequest).gameId;
+        const imageId = parseImageId(req);
+        const queryValidation = await validate(schemas.image_get, req.query);
+        if (queryValidation !== true) {
+            throw new ValidationError(queryValidation);
+        }
+        const size = req.query.size ? req.query.size.toString() : "full";
+        const imageResult = await Gallery.getGalleryImage(gameId, imageId, size);
+        if (!imageResult) {
+            throw new NotFoundError("Image not found", "IMAGE_NOT_FOUND");
+        }
+        res.set("Content-Type", imageResult.contentType);
+        res.status(200).send(imageResult.data);
+    } catch (err) {
+        next(err);
+    }
+};
+
+/**
+ * Adds a screenshot to the end of a game's gallery.
+ */
+const addImage = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+        const { gameId, user } = req as GameRequest;
+        const contentType = req.header("Content-Type");
+        const headerValidation = await validate(schemas.image_upload, { contentType });
+        if (headerValidation !== true) {
+            throw new ValidationError(headerValidation, "UNSUPPORTED_IMAGE_TYPE");
+        }
+        const imageBuffer = req.body;
+        if (!Buffer.isBuffer(imageBuffer)) {
+            throw new ValidationError("Invalid image data", "INVALID_IMAGE_DATA");
+        }
+        const imageId = await Gallery.addGalleryImage(user.id, gameId, imageBuffer, contentType);
+        res.status(201).json({ imageId });
+    } catch (err) {
+        next(err);
+    }
+};
+
+/**
+ * Sets or clears the caption of a screenshot.
+ */
+const editImage = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+        const { gameId, user } = req as GameRequest;
+        const imageId = parseImageId(req);
+        const validationResult = await validate(schemas.game_image_patch, req.body);
+        if (validationResult !== true) {
+            throw new ValidationError(validationResult);
+        }
+        await Gallery.editGalleryImageCaption(user.id, gameId, imageId, req.body.caption);
+        res.status(200).send();
+    } catch (err) {
+        next(err);
+    }
+};
+
+/**
+ * Reorders a game's gallery to match the given list of image ids.
+ */
+const reorderImages = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+        const { gameId, user } = req as GameRequest;
+        const validationResult = await validate(schemas.game_image_order, req.body);
+        if (validationResult !== true) {
+            throw new ValidationError(validationResult);
+        }
+        await Gallery.reorderGalleryImages(user.id, gameId, req.body.imageIds);
+        res.status(200).send();
+    } catch (err) {
+        next(err);
+    }
+};
+
+/**
+ * Removes a screenshot from a game's gallery.
+ */
+const deleteImage = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+        const { gameId, user } = req as GameRequest;
+        const imageId = parseImageId(req);
+        await Gallery.deleteGalleryImage(user.id, gameId, imageId);
+        res.status(200).send();
+    } catch (err) {
+        next(err);
+    }
+};
+
+export { getImages, getImage, addImage, editImage, reorderImages, deleteImage };
@@ -0,0 +1,69 @@
+import { Request, Response, NextFunction } from "express";
+import * as Pricing from "../models/game.price.model";
+import { GameRequest } from "../middleware/game.middleware";
+import { validate } from "../services/validator";
+import schemas from "../resources/schemas.json";
+import { ValidationError } from "../services/errors";
+
+/**
+ * Lists a game's past, active and scheduled discounts.
+ */
+const getDiscounts = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+        const gameId = (req as GameRequest).gameId;
+        const discounts = await Pricing.getDiscounts(gameId);
+        res.status(200).json(discounts);
+    } catch (err) {
+        next(err);
+    }
+};
+
+/**
+ * Schedules a discount on a game.
+ */
+const addDiscount = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+        const validationResult = await validate(schemas.game_discount_post, req.body);
+        if (validationResult !== true) {
+            throw new ValidationError(validationResult);
+        }
+        const { gameId, user } = req as GameRequest;
+        const { type, value, startsAt, endsAt } = req.body;
+        const discountId = await Pricing.addDiscount(user.id, gameId, { type, value, startsAt, endsAt });
+        res.status(201).json({ discountId });
+    } catch (err) {
+        next(err);
+    }
+};
+
+/**
+ * Cancels an active or scheduled discount.
+ */
+const deleteDiscount = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+        const { gameId, user } = req as GameRequest;
+        const discountId = parseInt(req.params.discountId, 10);
+        if (isNaN(discountId) || discountId < 0) {
+            throw new ValidationError("Invalid discount id", "INVALID_DISCOUNT_ID");
+        }
+        await Pricing.deleteDiscount(user.id, gameId, discountId);
+        res.status(200).send();
+    } catch (err) {
+        next(err);
+    }
+};
+
+/**
+ * Lists the base prices a game has had, oldest first.
+ */
+const getPriceHistory = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+        const gameId = (req as GameRequest).gameId;
+        const history = await Pricing.getPriceHistory(gameId);
+        res.status(200).json(history);
+    } catch (err) {
+        next(err);
+    }
+};
+
+export { getDiscounts, addDiscount, deleteDiscount, getPriceHistory };
@@ -0,0 +1,29 @@
+import { Request, Response, NextFunction } from "express";
+import * as Recommendations from "../models/game.recommendation.model";
+import { AuthenticatedRequest } from "../middleware/game.middleware";
+import { validate } from "../services/validator";
+import schemas from "../resources/schemas.json";
+import { ValidationError } from "../services/errors";
+
+// How many games are recommended when the request doesn't say.
+const DEFAULT_RECOMMENDATION_COUNT = 10;
+
+/**
+ * Recommends games to the authenticated user from the games they own, wishlist and rate highly.
+ */
+const getRecommendedGames = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+        const validationResult = await validate(schemas.recommendation_search, req.query);
+        if (validationResult !== true) {
+            throw new ValidationError(validationResult);
+        }
+        const userId = (req as AuthenticatedRequest).user.id;
+        const count = req.query.count ? parseInt(req.query.count as string, 10) : DEFAULT_RECOMMENDATION_COUNT;
+        const games = await Recommendations.getRecommendations(userId, count);
+        res.status(200).json({ games });
+    } catch (err) {
+        next(err);
+    }
+};
+
+export { getRecommendedGames };
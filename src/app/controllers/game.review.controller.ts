@@ -1,67 +1,184 @@
-import { Request, Response } from "express";
-import Logger from "../../config/logger";
+import { Request, Response, NextFunction } from "express";
 import * as ReviewModel from "../models/game.review.model";
+import * as VoteModel from "../models/game.review.vote.model";
+import * as ReplyModel from "../models/game.review.reply.model";
 import { GameRequest } from "../middleware/game.middleware";
 import { validate } from "../services/validator";
 import schemas from "../resources/schemas.json";
+import { ValidationError } from "../services/errors";
 
 /**
- * Gets all reviews for the specified game.
+ * Parses the :reviewerId route parameter, the id of the user who wrote the review.
  */
-const getGameReviews = async (req: Request, res: Response): Promise<void> => {
+const parseReviewerId = (req: Request): number => {
+    const reviewerId = parseInt(req.params.reviewerId, 10);
+    if (isNaN(reviewerId) || reviewerId < 0) {
+        throw new ValidationError("Invalid reviewer id", "INVALID_REVIEWER_ID");
+    }
+    return reviewerId;
+};
+
+/**
+ * Gets all reviews for the specified game, newest first or most helpful first.
+ */
+const getGameReviews = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
     try {
+        const validationResult = await validate(schemas.game_review_search, req.query);
+        if (validationResult !== true) {
+            throw new ValidationError(validationResult);
+        }
         const gameId = (req as any).gameId as number;
-        const reviews = await ReviewModel.getReviewsByGameId(gameId);
+        const sortBy = req.query.sortBy ? req.query.sortBy.toString() : "CREATED_DESC";
+        const reviews = await ReviewModel.getReviewsByGameId(gameId, sortBy);
         res.status(200).json(reviews);
-    } catch (err: any) {
-        Logger.error(err);
-        if (err.message.includes("No game found with id")) {
-            res.statusMessage = "No game found with id";
-            res.status(404).send();
-        } else {
-            res.statusMessage = "Internal server error";
-            res.status(500).send();
-        }
+    } catch (err) {
+        next(err);
     }
 };
 
 /**
  * Adds a review for the specified game.
  */
-const addGameReview = async (req: Request, res: Response): Promise<void> => {
+const addGameReview = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
     try {
         // Validate request body using the game_review_post schema.
         const validationResult = await validate(schemas.game_review_post, req.body);
         if (validationResult !== true) {
-            res.statusMessage = validationResult;
-            res.status(400).send();
-            return;
+            throw new ValidationError(validationResult);
         }
         const { gameId, user } = req as GameRequest;
         const { rating, review } = req.body;
         await ReviewModel.addReview(user.id, gameId, rating, review);
         res.status(201).send();
-    } catch (err: any) {
-        Logger.error(err);
-        if (err.message.includes("No game found with id")) {
-            res.statusMessage = "No game found with id";
-            res.status(404).send();
-        } else if (err.message.includes("Cannot review your own game")) {
-            res.statusMessage = "Cannot review your own game";
-            res.status(403).send();
-        } else if (err.message.includes("Can only review a game once")) {
-            res.statusMessage = "Can only review a game once";
-            res.status(403).send();
-        } else if (err.message.includes("Data too long")) {
-            res.statusMessage = "Data too long";
-            res.status(400).send();
-        } else if (err.message.includes("Rating must be between")) {
-            res.statusMessage = "Rating must be between 1 and 10";
-            res.status(400).send();
-        } else {
-            res.status(500).send();
+    } catch (err) {
+        next(err);
+    }
+};
+
+/**
+ * Edits the authenticated user's review for the specified game.
+ */
+const editGameReview = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+        // Validate request body using the game_review_patch schema.
+        const validationResult = await validate(schemas.game_review_patch, req.body);
+        if (validationResult !== true) {
+            throw new ValidationError(validationResult);
+        }
+        const { gameId, user } = req as GameRequest;
+        const { rating, review } = req.body;
+        const updatedData: { rating?: number; review?: string } = {};
+        if (rating !== undefined) updatedData.rating = rating;
+        if (review !== undefined) updatedData.review = review;
+
+        if (Object.keys(updatedData).length === 0) {
+            throw new ValidationError("No update fields provided", "NO_UPDATE_FIELDS");
+        }
+
+        await ReviewModel.editReview(user.id, gameId, updatedData);
+        res.status(200).send();
+    } catch (err) {
+        next(err);
+    }
+};
+
+/**
+ * Deletes the authenticated user's review for the specified game.
+ */
+const deleteGameReview = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+        const { gameId, user } = req as GameRequest;
+        await ReviewModel.deleteReview(user.id, gameId);
+        res.status(200).send();
+    } catch (err) {
+        next(err);
+    }
+};
+
+/**
+ * Votes a review helpful, or unhelpful with { "helpful": false }. Voting again replaces the earlier vote.
+ */
+const voteHelpful = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+        const validationResult = await validate(schemas.game_review_vote, req.body || {});
+        if (validationResult !== true) {
+            throw new ValidationError(validationResult);
+        }
+        const { gameId, user } = req as GameRequest;
+        const reviewerId = parseReviewerId(req);
+        const helpful = req.body && req.body.helpful !== undefined ? req.body.helpful : true;
+        await VoteModel.voteOnReview(user.id, gameId, reviewerId, helpful);
+        res.status(200).send();
+    } catch (err) {
+        next(err);
+    }
+};
+
+/**
+ * Withdraws the authenticated user's vote on a review.
+ */
+const removeHelpfulVote = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+        const { gameId, user } = req as GameRequest;
+        const reviewerId = parseReviewerId(req);
+        await VoteModel.removeVote(user.id, gameId, reviewerId);
+        res.status(200).send();
+    } catch (err) {
+        next(err);
+    }
+};
+
+/**
+ * Posts the game creator's public reply to a review.
+ */
+const addReviewReply = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+        const validationResult = await validate(schemas.game_review_reply, req.body);
+        if (validationResult !== true) {
+            throw new ValidationError(validationResult);
+        }
+        const { gameId, user } = req as GameRequest;
+        const reviewerId = parseReviewerId(req);
+        await ReplyModel.addReply(user.id, gameId, reviewerId, req.body.reply);
+        res.status(201).send();
+    } catch (err) {
+        next(err);
+    }
+};
+
+/**
+ * Replaces the text of the game creator's reply to a review.
+ */
+const editReviewReply = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+        const validationResult = await validate(schemas.game_review_reply, req.body);
+        if (validationResult !== true) {
+            throw new ValidationError(validationResult);
         }
+        const { gameId, user } = req as GameRequest;
+        const reviewerId = parseReviewerId(req);
+        await ReplyModel.editReply(user.id, gameId, reviewerId, req.body.reply);
+        res.status(200).send();
+    } catch (err) {
+        next(err);
     }
 };
 
-export { getGameReviews, addGameReview };
+/**
+ * Deletes the game creator's reply to a review.
+ */
+const deleteReviewReply = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+        const { gameId, user } = req as GameRequest;
+        const reviewerId = parseReviewerId(req);
+        await ReplyModel.deleteReply(user.id, gameId, reviewerId);
+        res.status(200).send();
+    } catch (err) {
+        next(err);
+    }
+};
+
+export {
+    getGameReviews, addGameReview, editGameReview, deleteGameReview, voteHelpful, removeHelpfulVote,
+    addReviewReply, editReviewReply, deleteReviewReply
+};
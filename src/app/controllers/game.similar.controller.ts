@@ -0,0 +1,29 @@
+import { Request, Response, NextFunction } from "express";
+import * as SimilarGames from "../models/game.similar.model";
+import { GameRequest } from "../middleware/game.middleware";
+import { validate } from "../services/validator";
+import schemas from "../resources/schemas.json";
+import { ValidationError } from "../services/errors";
+
+// How many similar games are listed when the request doesn't say.
+const DEFAULT_SIMILAR_COUNT = 10;
+
+/**
+ * Lists the games most similar to the specified game, going by what its players also own or wishlist.
+ */
+const getSimilarGames = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+        const validationResult = await validate(schemas.similar_search, req.query);
+        if (validationResult !== true) {
+            throw new ValidationError(validationResult);
+        }
+        const gameId = (req as GameRequest).gameId;
+        const count = req.query.count ? parseInt(req.query.count as string, 10) : DEFAULT_SIMILAR_COUNT;
+        const result = await SimilarGames.getSimilarGames(gameId, count);
+        res.status(200).json(result);
+    } catch (err) {
+        next(err);
+    }
+};
+
+export { getSimilarGames };
@@ -0,0 +1,65 @@
+import { Request, Response, NextFunction } from "express";
+import * as Tags from "../models/game.tag.model";
+import { AuthenticatedRequest, GameRequest } from "../middleware/game.middleware";
+import { validate } from "../services/validator";
+import schemas from "../resources/schemas.json";
+import { ValidationError } from "../services/errors";
+
+/**
+ * Lists every tag with how many games use it.
+ */
+const getTags = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+        const tags = await Tags.getTags();
+        res.status(200).json(tags);
+    } catch (err) {
+        next(err);
+    }
+};
+
+/**
+ * Adds a new tag that creators can then attach to their games.
+ */
+const addTag = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+        const validationResult = await validate(schemas.tag_post, req.body);
+        if (validationResult !== true) {
+            throw new ValidationError(validationResult);
+        }
+        const tagId = await Tags.createTag(req.body.name);
+        res.status(201).json({ tagId });
+    } catch (err) {
+        next(err);
+    }
+};
+
+/**
+ * Lists the tags owners have suggested for the specified game.
+ */
+const getTagSuggestions = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+        const suggestions = await Tags.getTagSuggestions((req as GameRequest).gameId);
+        res.status(200).json(suggestions);
+    } catch (err) {
+        next(err);
+    }
+};
+
+/**
+ * Suggests a tag for a game the authenticated user owns.
+ */
+const suggestTag = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+        const { gameId, user } = req as GameRequest;
+        const validationResult = await validate(schemas.tag_suggestion_post, req.body);
+        if (validationResult !== true) {
+            throw new ValidationError(validationResult);
+        }
+        await Tags.suggestTag(user.id, gameId, req.body.tagId);
+        res.status(200).send();
+    } catch (err) {
+        next(err);
+    }
+};
+
+export { getTags, addTag, getTagSuggestions, suggestTag };
@@ -1,30 +1,29 @@
-import { Request, Response } from "express";
-import Logger from '../../config/logger';
+import { Request, Response, NextFunction } from "express";
 import * as User from "../models/user.model";
-import crypto from 'crypto';
+import * as Session from "../models/user.session.model";
 import { hash, compare } from '../services/passwords';
+import { generateToken } from '../services/tokens';
+import * as Throttle from '../services/throttle';
+import { sendVerificationEmail } from '../services/verification';
 import { validate } from '../services/validator';
 import schemas from '../resources/schemas.json';
+import { ConflictError, ForbiddenError, NotFoundError, UnauthorizedError, ValidationError } from '../services/errors';
 
 /**
  * Registers a new user.
  */
-const register = async (req: Request, res: Response): Promise<void> => {
+const register = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
     try {
         // Validate incoming data against the user_register schema.
         const validationResult = await validate(schemas.user_register, req.body);
         if (validationResult !== true) {
-            res.statusMessage = validationResult;
-            res.status(400).send();
-            return;
+            throw new ValidationError(validationResult);
         }
         const { firstName, lastName, email, password } = req.body;
 
         const existingUser = await User.getUserByEmail(email);
         if (existingUser) {
-            res.statusMessage = "Email already in use";
-            res.status(403).send();
-            return;
+            throw new ConflictError("Email already in use", "EMAIL_TAKEN");
         }
 
         const hashedPassword = await hash(password);
@@ -35,49 +34,45 @@ const register = async (req: Request, res: Response): Promise<void> => {
             password: hashedPassword,
         });
 
+        // The account can log in straight away, but can't post games or reviews until the email is verified.
+        await sendVerificationEmail({ id: newUserId, firstName, email });
+
         res.status(201).json({ userId: newUserId });
     } catch (err) {
-        Logger.error(err);
-        res.statusMessage = "Internal Server Error";
-        res.status(500).send();
+        next(err);
     }
 };
 
 /**
  * Authenticates a user.
  */
-const login = async (req: Request, res: Response): Promise<void> => {
+const login = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
     try {
         // Validate incoming data against the user_login schema.
         const validationResult = await validate(schemas.user_login, req.body);
         if (validationResult !== true) {
-            res.statusMessage = validationResult;
-            res.status(400).send();
-            return;
+            throw new ValidationError(validationResult);
         }
-        const { email, password } = req.body;
+        const { email, password, deviceLabel } = req.body;
 
-        const user = await User.getUserByEmail(email);
-        if (!user) {
-            res.statusMessage = "Incorrect email/password";
-            res.status(401).send();
-            return;
-        }
+        // Refuse (with a 429) while the email or client IP is locked out or still in its delay. Otherwise the
+        // attempt counts as a failed one until the password is found to match.
+        await Throttle.beginLogin(email, req.ip);
 
-        const passwordMatches = await compare(password, user.password);
+        const user = await User.getUserByEmail(email);
+        const passwordMatches = user ? await compare(password, user.password) : false;
         if (!passwordMatches) {
-            res.statusMessage = "Incorrect email/password";
-            res.status(401).send();
-            return;
+            throw new UnauthorizedError("Incorrect email/password", "INVALID_CREDENTIALS");
         }
+        await Throttle.recordSuccess(email, req.ip);
 
-        const token = crypto.randomBytes(32).toString('hex');
-        await User.updateUserToken(user.id, token);
+        // Each login gets its own session so other devices stay logged in.
+        const token = generateToken();
+        const label = deviceLabel || (req.get("User-Agent") || "").slice(0, 64) || null;
+        await Session.createSession(user.id, token, label);
         res.status(200).json({ userId: user.id, token });
     } catch (err) {
-        Logger.error(err);
-        res.statusMessage = "Internal Server Error";
-        res.status(500).send();
+        next(err);
     }
 };
 
@@ -85,36 +80,26 @@ const login = async (req: Request, res: Response): Promise<void> => {
  * Logs out a user.
  * Assumes that middleware has already validated the user token.
  */
-const logout = async (req: Request, res: Response): Promise<void> => {
+const logout = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
     try {
         const authToken = req.get("X-Authorization");
-        const user = await User.getUserByToken(authToken!);
-        if (!user) {
-            res.statusMessage = "Unauthorized";
-            res.status(401).send();
-            return;
-        }
-        await User.updateUserToken(user.id, null);
+        await Session.deleteSessionByToken(authToken!);
         res.status(200).send();
     } catch (err) {
-        Logger.error(err);
-        res.statusMessage = "Internal Server Error";
-        res.status(500).send();
+        next(err);
     }
 };
 
 /**
  * Retrieves user details.
  */
-const view = async (req: Request, res: Response): Promise<void> => {
+const view = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
     try {
         // Assume validateUserId middleware has set req.userId.
         const userId = (req as any).userId as number;
         const user = await User.getUserById(userId);
         if (!user) {
-            res.statusMessage = "User Not Found";
-            res.status(404).send();
-            return;
+            throw new NotFoundError("User Not Found", "USER_NOT_FOUND");
         }
         // Optionally, if a token is provided, get the current user.
         const token = req.get("X-Authorization");
@@ -131,25 +116,21 @@ const view = async (req: Request, res: Response): Promise<void> => {
             });
         }
     } catch (err) {
-        Logger.error(err);
-        res.statusMessage = "Internal Server Error";
-        res.status(500).send();
+        next(err);
     }
 };
 
 /**
  * Updates a user's details.
  */
-const update = async (req: Request, res: Response): Promise<void> => {
+const update = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
     try {
         const userId = (req as any).userId as number;
         // Validate incoming data against the user_edit schema if any fields are provided.
         if (Object.keys(req.body).length > 0) {
             const validationResult = await validate(schemas.user_edit, req.body);
             if (validationResult !== true) {
-                res.statusMessage = validationResult;
-                res.status(400).send();
-                return;
+                throw new ValidationError(validationResult);
             }
         }
         const { firstName, lastName, email, password, currentPassword } = req.body;
@@ -158,34 +139,36 @@ const update = async (req: Request, res: Response): Promise<void> => {
         // Handle password update if fields are provided.
         if (password !== undefined || currentPassword !== undefined) {
             if (!password || !currentPassword) {
-                res.statusMessage = "Both currentPassword and new password must be provided to change password";
-                res.status(400).send();
-                return;
+                throw new ValidationError(
+                    "Both currentPassword and new password must be provided to change password",
+                    "CURRENT_PASSWORD_REQUIRED"
+                );
             }
             if (password === currentPassword) {
-                res.statusMessage = "New password must be different from current password";
-                res.status(403).send();
-                return;
+                throw new ForbiddenError("New password must be different from current password", "PASSWORD_UNCHANGED");
             }
             const currentUser = await User.getUserByIdAuth(userId);
             if (!currentUser) {
-                res.statusMessage = "User not found";
-                res.status(404).send();
-                return;
+                throw new NotFoundError("User not found", "USER_NOT_FOUND");
             }
             const passwordMatches = await compare(currentPassword, currentUser.password);
             if (!passwordMatches) {
-                res.statusMessage = "Unauthorized: Current password is incorrect";
-                res.status(401).send();
-                return;
+                throw new UnauthorizedError("Unauthorized: Current password is incorrect", "INVALID_CREDENTIALS");
             }
             newPasswordHash = await hash(password);
         }
 
+        const existingUser = await User.getUserById(userId);
+        if (!existingUser) {
+            throw new NotFoundError("User not found", "USER_NOT_FOUND");
+        }
+        // Resubmitting the current email is not a change, so it doesn't need verifying again.
+        const emailChanged = email !== undefined && email !== existingUser.email;
+
         const updateData: { firstName?: string; lastName?: string; email?: string; password?: string } = {};
         if (firstName !== undefined) updateData.firstName = firstName;
         if (lastName !== undefined) updateData.lastName = lastName;
-        if (email !== undefined) updateData.email = email;
+        if (emailChanged) updateData.email = email;
         if (newPasswordHash !== undefined) updateData.password = newPasswordHash;
 
         if (Object.keys(updateData).length === 0) {
@@ -193,15 +176,12 @@ const update = async (req: Request, res: Response): Promise<void> => {
             return;
         }
         await User.updateUserDetails(userId, updateData);
+        if (emailChanged) {
+            await sendVerificationEmail({ id: userId, firstName: updateData.firstName || existingUser.firstName, email });
+        }
         res.status(200).send();
     } catch (err) {
-        Logger.error(err);
-        if (err.message.includes("Duplicate entry")) {
-            res.statusMessage = "Duplicate entry (duplicate email)";
-            res.status(403).send();
-        }
-        res.statusMessage = "Internal Server Error";
-        res.status(500).send();
+        next(err);
     }
 };
 
@@ -0,0 +1,81 @@
+import { Request, Response, NextFunction } from "express";
+import * as Follow from "../models/user.follow.model";
+import { AuthenticatedUserRequest, UserRequest } from "../middleware/user.middleware";
+import { validate } from "../services/validator";
+import schemas from "../resources/schemas.json";
+import { ValidationError } from "../services/errors";
+
+// How many feed items a page holds when the request doesn't say.
+const DEFAULT_FEED_COUNT = 20;
+
+/**
+ * Makes the authenticated user follow the specified user.
+ */
+const follow = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+        const { userId, user } = req as AuthenticatedUserRequest & UserRequest;
+        await Follow.followUser(user.id, userId);
+        res.status(200).send();
+    } catch (err) {
+        next(err);
+    }
+};
+
+/**
+ * Makes the authenticated user stop following the specified user.
+ */
+const unfollow = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+        const { userId, user } = req as AuthenticatedUserRequest & UserRequest;
+        await Follow.unfollowUser(user.id, userId);
+        res.status(200).send();
+    } catch (err) {
+        next(err);
+    }
+};
+
+/**
+ * Lists the users following the specified user.
+ */
+const getFollowers = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+        const followers = await Follow.getFollowers((req as UserRequest).userId);
+        res.status(200).json({ users: followers, count: followers.length });
+    } catch (err) {
+        next(err);
+    }
+};
+
+/**
+ * Lists the users the specified user follows.
+ */
+const getFollowing = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+        const following = await Follow.getFollowing((req as UserRequest).userId);
+        res.status(200).json({ users: following, count: following.length });
+    } catch (err) {
+        next(err);
+    }
+};
+
+/**
+ * Lists new games and reviews from the creators the user follows, newest first, a page at a time.
+ */
+const getFeed = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+        const validationResult = await validate(schemas.feed_search, req.query);
+        if (validationResult !== true) {
+            throw new ValidationError(validationResult);
+        }
+        const userId = (req as UserRequest).userId;
+        const result = await Follow.getFeed(userId, {
+            count: req.query.count ? parseInt(req.query.count as string, 10) : DEFAULT_FEED_COUNT,
+            cursor: req.query.cursor ? req.query.cursor.toString() : undefined
+        });
+        res.status(200).json(result);
+    } catch (err) {
+        next(err);
+    }
+};
+
+export { follow, unfollow, getFollowers, getFollowing, getFeed };
@@ -0,0 +1,89 @@
+import { Request, Response, NextFunction } from "express";
+import * as Notification from "../models/user.notification.model";
+import { UserRequest } from "../middleware/user.middleware";
+import { validate } from "../services/validator";
+import schemas from "../resources/schemas.json";
+import { ValidationError } from "../services/errors";
+
+/**
+ * Lists the user's notifications, newest first, optionally only the unread ones.
+ */
+const getNotifications = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+        const validationResult = await validate(schemas.notification_search, req.query);
+        if (validationResult !== true) {
+            throw new ValidationError(validationResult);
+        }
+        const userId = (req as UserRequest).userId;
+        const result = await Notification.getNotifications(userId, {
+            startIndex: req.query.startIndex ? parseInt(req.query.startIndex as string, 10) : 0,
+            count: req.query.count ? parseInt(req.query.count as string, 10) : 2000000000,
+            unreadOnly: req.query.unreadOnly === "true"
+        });
+        res.status(200).json(result);
+    } catch (err) {
+        next(err);
+    }
+};
+
+/**
+ * Marks one of the user's notifications as read.
+ */
+const markRead = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+        const userId = (req as UserRequest).userId;
+        const notificationId = parseInt(req.params.notificationId, 10);
+        if (isNaN(notificationId) || notificationId < 0) {
+            throw new ValidationError("Invalid notification id", "INVALID_NOTIFICATION_ID");
+        }
+        await Notification.markRead(userId, notificationId);
+        res.status(200).send();
+    } catch (err) {
+        next(err);
+    }
+};
+
+/**
+ * Marks all of the user's notifications as read.
+ */
+const markAllRead = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+        const userId = (req as UserRequest).userId;
+        await Notification.markAllRead(userId);
+        res.status(200).send();
+    } catch (err) {
+        next(err);
+    }
+};
+
+/**
+ * Shows which notification types the user receives.
+ */
+const getPreferences = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+        const userId = (req as UserRequest).userId;
+        const preferences = await Notification.getPreferences(userId);
+        res.status(200).json(preferences);
+    } catch (err) {
+        next(err);
+    }
+};
+
+/**
+ * Switches notification types on or off for the user, responding with the resulting preferences.
+ */
+const updatePreferences = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+        const validationResult = await validate(schemas.notification_preferences, req.body);
+        if (validationResult !== true) {
+            throw new ValidationError(validationResult);
+        }
+        const userId = (req as UserRequest).userId;
+        await Notification.setPreferences(userId, req.body);
+        res.status(200).json(await Notification.getPreferences(userId));
+    } catch (err) {
+        next(err);
+    }
+};
+
+export { getNotifications, markRead, markAllRead, getPreferences, updatePreferences };
@@ -0,0 +1,65 @@
+import { Request, Response, NextFunction } from "express";
+import Logger from "../../config/logger";
+import * as User from "../models/user.model";
+import * as Session from "../models/user.session.model";
+import * as PasswordReset from "../models/user.password.reset.model";
+import { hash } from '../services/passwords';
+import { generateToken } from '../services/tokens';
+import { sendMail } from '../services/mailer';
+import { validate } from '../services/validator';
+import schemas from '../resources/schemas.json';
+import { ValidationError } from '../services/errors';
+
+/**
+ * Emails a password reset token to the user with the given address.
+ * Always responds 200, whether or not the email is registered, so the endpoint can't be used to discover accounts.
+ */
+const requestReset = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+        const validationResult = await validate(schemas.password_reset_request, req.body);
+        if (validationResult !== true) {
+            throw new ValidationError(validationResult);
+        }
+        const user = await User.getUserByEmail(req.body.email);
+        if (user) {
+            const token = generateToken();
+            await PasswordReset.createResetToken(user.id, token);
+            await sendMail({
+                to: user.email,
+                subject: "Reset your password",
+                text: `Hi ${user.firstName},\n\n`
+                    + `Someone asked to reset the password for your account. If it was you, use this token to `
+                    + `choose a new password:\n\n${token}\n\n`
+                    + `If you didn't ask for a reset you can ignore this email; your password has not been changed.`
+            });
+        } else {
+            Logger.info(`Password reset requested for unknown email ${req.body.email}`);
+        }
+        res.status(200).send();
+    } catch (err) {
+        next(err);
+    }
+};
+
+/**
+ * Sets a new password using a reset token, then logs the user out of every session.
+ */
+const confirmReset = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+        const validationResult = await validate(schemas.password_reset_confirm, req.body);
+        if (validationResult !== true) {
+            throw new ValidationError(validationResult);
+        }
+        const userId = await PasswordReset.consumeResetToken(req.body.token);
+        if (userId === null) {
+            throw new ValidationError("Invalid or expired reset token", "INVALID_RESET_TOKEN");
+        }
+        await User.updateUserDetails(userId, { password: await hash(req.body.password) });
+        await Session.deleteSessionsByUserId(userId);
+        res.status(200).send();
+    } catch (err) {
+        next(err);
+    }
+};
+
+export { requestReset, confirmReset }
@@ -0,0 +1,18 @@
+import { Request, Response, NextFunction } from "express";
+import * as Purchase from "../models/user.purchase.model";
+import { UserRequest } from "../middleware/user.middleware";
+
+/**
+ * Lists the user's purchase ledger, most recent first.
+ */
+const getPurchases = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+        const userId = (req as UserRequest).userId;
+        const purchases = await Purchase.getPurchasesByUserId(userId);
+        res.status(200).json(purchases);
+    } catch (err) {
+        next(err);
+    }
+};
+
+export { getPurchases };
@@ -0,0 +1,53 @@
+import { Request, Response, NextFunction } from "express";
+import * as Session from "../models/user.session.model";
+import { UserRequest, AuthenticatedUserRequest } from "../middleware/user.middleware";
+import { NotFoundError, ValidationError } from "../services/errors";
+
+/**
+ * Lists the user's active sessions, flagging the one making the request.
+ */
+const getSessions = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+        const userId = (req as UserRequest).userId;
+        const authUser = (req as AuthenticatedUserRequest).user;
+        const sessions = await Session.getSessionsByUserId(userId, authUser.sessionId);
+        res.status(200).json(sessions);
+    } catch (err) {
+        next(err);
+    }
+};
+
+/**
+ * Revokes one of the user's sessions.
+ */
+const deleteSession = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+        const userId = (req as UserRequest).userId;
+        const sessionId = parseInt(req.params.sessionId, 10);
+        if (isNaN(sessionId) || sessionId < 0) {
+            throw new ValidationError("Invalid session id", "INVALID_SESSION_ID");
+        }
+        const deleted = await Session.deleteSession(userId, sessionId);
+        if (!deleted) {
+            throw new NotFoundError("Session not found", "SESSION_NOT_FOUND");
+        }
+        res.status(200).send();
+    } catch (err) {
+        next(err);
+    }
+};
+
+/**
+ * Revokes every one of the user's sessions, including the current one (logout everywhere).
+ */
+const deleteAllSessions = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+        const userId = (req as UserRequest).userId;
+        await Session.deleteSessionsByUserId(userId);
+        res.status(200).send();
+    } catch (err) {
+        next(err);
+    }
+};
+
+export { getSessions, deleteSession, deleteAllSessions };
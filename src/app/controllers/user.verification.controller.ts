@@ -0,0 +1,49 @@
+import { Request, Response, NextFunction } from "express";
+import * as User from "../models/user.model";
+import * as EmailVerification from "../models/user.email.verification.model";
+import { AuthenticatedUserRequest } from "../middleware/user.middleware";
+import { sendVerificationEmail } from '../services/verification';
+import { validate } from '../services/validator';
+import schemas from '../resources/schemas.json';
+import { ConflictError, NotFoundError, ValidationError } from '../services/errors';
+
+/**
+ * Verifies the email address a token was sent to. No login is needed, since the token proves the address.
+ */
+const verify = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+        const validationResult = await validate(schemas.email_verify, req.body);
+        if (validationResult !== true) {
+            throw new ValidationError(validationResult);
+        }
+        const userId = await EmailVerification.verifyEmail(req.body.token);
+        if (userId === null) {
+            throw new ValidationError("Invalid or expired verification token", "INVALID_VERIFICATION_TOKEN");
+        }
+        res.status(200).json({ userId });
+    } catch (err) {
+        next(err);
+    }
+};
+
+/**
+ * Sends the authenticated user a new verification token, e.g. after the first one expired.
+ */
+const resend = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+        const userId = (req as AuthenticatedUserRequest).user.id;
+        const user = await User.getUserById(userId);
+        if (!user) {
+            throw new NotFoundError("User not found", "USER_NOT_FOUND");
+        }
+        if (user.emailVerified) {
+            throw new ConflictError("Email address is already verified", "ALREADY_VERIFIED");
+        }
+        await sendVerificationEmail({ id: userId, firstName: user.firstName, email: user.email });
+        res.status(200).send();
+    } catch (err) {
+        next(err);
+    }
+};
+
+export { verify, resend }
@@ -0,0 +1,54 @@
+import { Request, Response, NextFunction } from "express";
+import Logger from "../../config/logger";
+import * as User from "../models/user.model";
+import { ForbiddenError, UnauthorizedError } from "../services/errors";
+
+/**
+ * How the backdoor endpoints are exposed:
+ * - admin: only to users with the admin role (the default)
+ * - open: to anyone, as the Bruno test suite expects when run locally
+ * - disabled: not at all, the routes aren't registered. Always the case when NODE_ENV=production.
+ */
+type BackdoorMode = "admin" | "open" | "disabled";
+
+const getBackdoorMode = (): BackdoorMode => {
+    if (process.env.NODE_ENV === "production") {
+        return "disabled";
+    }
+    const mode = (process.env.BACKDOOR_MODE || "admin").toLowerCase();
+    if (mode === "admin" || mode === "open" || mode === "disabled") {
+        return mode;
+    }
+    Logger.warn(`Unknown BACKDOOR_MODE "${process.env.BACKDOOR_MODE}", defaulting to admin`);
+    return "admin";
+};
+
+/**
+ * Guards the backdoor routes according to the backdoor mode, and logs every call with the acting user
+ * (or that the caller was unauthenticated), including calls that are refused.
+ */
+const guardBackdoor = (mode: BackdoorMode) => async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    const endpoint = `${req.method} ${req.path}`;
+    try {
+        const token = req.get("X-Authorization");
+        const user = token ? await User.getUserByToken(token) : null;
+        const actor = user ? `user ${user.id}` : "an unauthenticated caller";
+        if (mode === "admin") {
+            if (!user) {
+                Logger.warn(`Backdoor ${endpoint} refused for ${actor}`);
+                throw new UnauthorizedError("Unauthorized: the backdoor requires an admin token");
+            }
+            if (await User.getUserRole(user.id) !== "admin") {
+                Logger.warn(`Backdoor ${endpoint} refused for ${actor}, who is not an admin`);
+                throw new ForbiddenError("Only admins may use the backdoor", "ADMIN_ONLY");
+            }
+        }
+        const sql = req.path.endsWith("/executeSql") ? `: ${String(req.body).slice(0, 500)}` : "";
+        Logger.warn(`Backdoor ${endpoint} called by ${actor}${sql}`);
+        next();
+    } catch (err) {
+        next(err);
+    }
+};
+
+export { BackdoorMode, getBackdoorMode, guardBackdoor }
@@ -0,0 +1,19 @@
+import { Request, Response, NextFunction } from "express";
+import { AuthenticatedRequest } from "./game.middleware";
+import { ValidationError } from "../services/errors";
+
+interface BundleRequest extends AuthenticatedRequest {
+    bundleId: number;
+}
+
+const validateBundleId = (req: Request, res: Response, next: NextFunction): void => {
+    const bundleId = parseInt(req.params.id, 10);
+    if (isNaN(bundleId) || bundleId < 0) {
+        next(new ValidationError("Invalid bundle id", "INVALID_BUNDLE_ID"));
+        return;
+    }
+    (req as BundleRequest).bundleId = bundleId;
+    next();
+};
+
+export { validateBundleId, BundleRequest };
@@ -0,0 +1,53 @@
+import { Request, Response, NextFunction } from "express";
+import Logger from "../../config/logger";
+import { HttpError, NotFoundError, TooManyRequestsError, ValidationError } from "../services/errors";
+
+/**
+ * Maps anything thrown by a route onto an HttpError. Errors raised by body-parser and the database driver are
+ * translated where they describe a bad request, and everything else becomes a 500.
+ */
+const toHttpError = (err: any): HttpError => {
+    if (err instanceof HttpError) {
+        return err;
+    }
+    if (err && err.type === "entity.parse.failed") {
+        return new ValidationError("Request body is not valid JSON", "INVALID_JSON");
+    }
+    if (err && err.type === "entity.too.large") {
+        return new HttpError(413, "PAYLOAD_TOO_LARGE", "Request body is too large");
+    }
+    if (err && err.code === "ER_DATA_TOO_LONG") {
+        return new ValidationError("Data too long", "DATA_TOO_LONG");
+    }
+    return new HttpError(500, "INTERNAL_ERROR", "Internal Server Error");
+};
+
+/**
+ * Responds to requests that matched no route.
+ */
+const notFoundHandler = (req: Request, res: Response, next: NextFunction): void => {
+    next(new NotFoundError(`No route for ${req.method} ${req.path}`, "ROUTE_NOT_FOUND"));
+};
+
+/**
+ * Sends every error as { code, message } with the matching status. Must be registered after all routes.
+ */
+const errorHandler = (err: any, req: Request, res: Response, next: NextFunction): void => {
+    if (res.headersSent) {
+        next(err);
+        return;
+    }
+    const httpError = toHttpError(err);
+    if (httpError.status >= 500) {
+        Logger.error(err);
+    } else {
+        Logger.http(`${httpError.status} ${httpError.code}: ${httpError.message}`);
+    }
+    if (httpError instanceof TooManyRequestsError) {
+        res.set("Retry-After", String(httpError.retryAfter));
+    }
+    res.statusMessage = httpError.message;
+    res.status(httpError.status).json({ code: httpError.code, message: httpError.message });
+};
+
+export { notFoundHandler, errorHandler }
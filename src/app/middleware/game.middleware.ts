@@ -1,5 +1,6 @@
 import { Request, Response, NextFunction } from "express";
 import * as User from "../models/user.model";
+import { UnauthorizedError, ValidationError } from "../services/errors";
 
 interface AuthenticatedRequest extends Request {
     user: any;
@@ -12,8 +13,7 @@ interface GameRequest extends AuthenticatedRequest {
 const validateGameId = (req: Request, res: Response, next: NextFunction): void => {
     const gameId = parseInt(req.params.id, 10);
     if (isNaN(gameId) || gameId < 0) {
-        res.statusMessage = "Invalid game id";
-        res.status(400).send();
+        next(new ValidationError("Invalid game id", "INVALID_GAME_ID"));
         return;
     }
     (req as GameRequest).gameId = gameId;
@@ -21,45 +21,43 @@ const validateGameId = (req: Request, res: Response, next: NextFunction): void =
 };
 
 const validateAuthToken = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
-    const token = req.get("X-Authorization");
-    if (!token) {
-        res.statusMessage = "Unauthorized: No token provided";
-        res.status(401).send();
-        return;
-    }
-    const user = await User.getUserByToken(token);
-    if (!user) {
-        res.statusMessage = "Unauthorized";
-        res.status(401).send();
-        return;
+    try {
+        const token = req.get("X-Authorization");
+        if (!token) {
+            throw new UnauthorizedError("Unauthorized: No token provided");
+        }
+        const user = await User.getUserByToken(token);
+        if (!user) {
+            throw new UnauthorizedError();
+        }
+        (req as AuthenticatedRequest).user = user;
+        next();
+    } catch (err) {
+        next(err);
     }
-    (req as AuthenticatedRequest).user = user;
-    next();
 };
 
 // TODO, can we make it such that we can simply do validateAuthToken then validateGameId, instead of making a whole new middleware
 const validateGameRequest = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
-    const gameId = parseInt(req.params.id, 10);
-    if (isNaN(gameId) || gameId < 0) {
-        res.statusMessage = "Invalid game id";
-        res.status(400).send();
-        return;
+    try {
+        const gameId = parseInt(req.params.id, 10);
+        if (isNaN(gameId) || gameId < 0) {
+            throw new ValidationError("Invalid game id", "INVALID_GAME_ID");
+        }
+        const token = req.get("X-Authorization");
+        if (!token) {
+            throw new UnauthorizedError("Unauthorized: No token provided");
+        }
+        const user = await User.getUserByToken(token);
+        if (!user) {
+            throw new UnauthorizedError();
+        }
+        (req as GameRequest).gameId = gameId;
+        (req as GameRequest).user = user;
+        next();
+    } catch (err) {
+        next(err);
     }
-    const token = req.get("X-Authorization");
-    if (!token) {
-        res.statusMessage = "Unauthorized: No token provided";
-        res.status(401).send();
-        return;
-    }
-    const user = await User.getUserByToken(token);
-    if (!user) {
-        res.statusMessage = "Unauthorized";
-        res.status(401).send();
-        return;
-    }
-    (req as GameRequest).gameId = gameId;
-    (req as GameRequest).user = user;
-    next();
 };
 
 export { validateGameId, validateAuthToken, validateGameRequest, AuthenticatedRequest,  GameRequest };
@@ -1,5 +1,6 @@
 import { Request, Response, NextFunction } from "express";
 import * as User from "../models/user.model";
+import { ForbiddenError, UnauthorizedError, ValidationError } from "../services/errors";
 
 interface UserRequest extends Request {
     userId: number;
@@ -12,8 +13,7 @@ interface AuthenticatedUserRequest extends Request {
 const validateUserId = (req: Request, res: Response, next: NextFunction): void => {
     const userId = parseInt(req.params.id, 10);
     if (isNaN(userId) || userId < 0) {
-        res.statusMessage = "Invalid user id";
-        res.status(400).send();
+        next(new ValidationError("Invalid user id", "INVALID_USER_ID"));
         return;
     }
     (req as UserRequest).userId = userId;
@@ -21,30 +21,44 @@ const validateUserId = (req: Request, res: Response, next: NextFunction): void =
 };
 
 const validateUserAuthToken = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
-    const token = req.get("X-Authorization");
-    if (!token) {
-        res.statusMessage = "Unauthorized: No token provied";
-        res.status(401).send();
-        return;
-    }
-    const user = await User.getUserByToken(token);
-    if (!user) {
-        res.statusMessage = "Unauthorized";
-        res.status(401).send();
-        return;
+    try {
+        const token = req.get("X-Authorization");
+        if (!token) {
+            throw new UnauthorizedError("Unauthorized: No token provided");
+        }
+        const user = await User.getUserByToken(token);
+        if (!user) {
+            throw new UnauthorizedError();
+        }
+        (req as AuthenticatedUserRequest).user = user;
+        next();
+    } catch (err) {
+        next(err);
     }
-    (req as AuthenticatedUserRequest).user = user;
-    next();
 };
 
 const authorizeUser = (req: Request, res: Response, next: NextFunction): void => {
     const authReq = req as AuthenticatedUserRequest & UserRequest;
     if (!authReq.user || authReq.user.id !== authReq.userId) {
-        res.statusMessage = "Forbidden: You cannot edit another user's information";
-        res.status(403).send();
+        next(new ForbiddenError("Forbidden: You cannot edit another user's information", "NOT_OWN_ACCOUNT"));
         return;
     }
     next();
 };
 
-export { authorizeUser, validateUserId, validateUserAuthToken, UserRequest, AuthenticatedUserRequest}
\ No newline at end of file
+/**
+ * Refuses users who haven't verified their email yet. Must run after one of the auth token middlewares.
+ */
+const requireVerifiedEmail = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+        const user = (req as AuthenticatedUserRequest).user;
+        if (!(await User.isEmailVerified(user.id))) {
+            throw new ForbiddenError("Forbidden: You must verify your email address first", "EMAIL_NOT_VERIFIED");
+        }
+        next();
+    } catch (err) {
+        next(err);
+    }
+};
+
+export { authorizeUser, validateUserId, validateUserAuthToken, requireVerifiedEmail, UserRequest, AuthenticatedUserRequest}
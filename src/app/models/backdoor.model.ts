@@ -2,18 +2,26 @@ import {getPool} from "../../config/db";
 import fs from 'mz/fs';
 import * as defaultUsers from "../resources/default_users.json"
 import * as passwords from "../services/passwords";
+import * as Search from "./game.search.model";
+import * as Migrations from "./migration.model";
+import * as Aggregates from "./game.aggregate.model";
+import * as Pricing from "./game.price.model";
+import * as Throttle from "../services/throttle";
 const imageDirectory = './storage/images/';
 const defaultPhotoDirectory = './storage/default/';
 
 import Logger from "../../config/logger";
 import {OkPacket, ResultSetHeader, RowDataPacket} from "mysql2";
 
+/**
+ * Rolls back every migration and re-applies them, leaving an empty database at the latest schema version.
+ */
 const resetDb = async (): Promise<any> => {
     const promises = [];
 
-    const sql = await fs.readFile('src/app/resources/create_database.sql', 'utf8');
     Logger.info("Resetting Database...");
-    promises.push(getPool().query(sql));  // sync call to recreate DB
+    promises.push(Migrations.migrateDown(Infinity).then(() => Migrations.migrateUp()));  // sync call to recreate DB
+    promises.push(Throttle.clearAll());  // forget failed logins against the old data
 
     const files = await fs.readdir(imageDirectory);
     for (const file of files) {
@@ -28,6 +36,10 @@ const loadData = async (): Promise<any> => {
     try {
         const sql = await fs.readFile('src/app/resources/resample_database.sql', 'utf8');
         await getPool().query(sql);
+        // The sample data is inserted directly, so the search index, game aggregates and price history still need building.
+        await Search.rebuildIndex();
+        await Aggregates.recomputeAllAggregates();
+        await Pricing.backfillPriceHistory();
     } catch (err) {
         Logger.error(err.sql);
         throw err;
@@ -87,4 +99,11 @@ const executeSql = async (sql: string): Promise<RowDataPacket[][] | RowDataPacke
     }
 };
 
-export {resetDb, loadData, executeSql}
+/**
+ * Recalculates every game's rating, review, owner and wishlist aggregates from the underlying tables.
+ */
+const recomputeAggregates = async (): Promise<number> => {
+    return await Aggregates.recomputeAllAggregates();
+};
+
+export {resetDb, loadData, executeSql, recomputeAggregates}
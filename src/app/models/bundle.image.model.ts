@@ -0,0 +1,64 @@
+import path from "path";
+import fs from "fs/promises";
+import { getPool } from "../../config/db";
+import * as Images from "../services/images";
+import { ForbiddenError, NotFoundError } from "../services/errors";
+
+// Bundle cover images are kept with the game cover images, under a bundle_ prefix.
+const BUNDLE_IMAGE_DIR = path.join(__dirname, "..", "..", "..", "storage", "images");
+
+async function getBundleImage(bundleId: number, size: string = "full"): Promise<{ data: Buffer; contentType: string } | null> {
+    const [rows] = await getPool().query("SELECT image_filename FROM bundle WHERE id = ?", [bundleId]);
+    if (!rows || (rows as any[]).length === 0) {
+        throw new NotFoundError("Bundle not found", "BUNDLE_NOT_FOUND");
+    }
+    const imageFileName = (rows as any[])[0].image_filename;
+    if (!imageFileName) return null;
+    try {
+        await fs.access(path.join(BUNDLE_IMAGE_DIR, imageFileName));
+    } catch {
+        return null;
+    }
+    const data = await fs.readFile(await Images.getImageVariantPath(BUNDLE_IMAGE_DIR, imageFileName, size));
+    return { data, contentType: Images.getContentType(imageFileName) };
+}
+
+/**
+ * Sets (or replaces) a bundle's cover image. Only its creator may do so. Returns true if it had no image before.
+ */
+async function setBundleImage(
+    userId: number,
+    bundleId: number,
+    imageBuffer: Buffer,
+    contentType: string
+): Promise<boolean> {
+    const pool = getPool();
+    const [rows] = await pool.query("SELECT creator_id, image_filename FROM bundle WHERE id = ?", [bundleId]);
+    if (!rows || (rows as any[]).length === 0) {
+        throw new NotFoundError("Bundle not found", "BUNDLE_NOT_FOUND");
+    }
+    const bundleRecord = (rows as any[])[0];
+    if (bundleRecord.creator_id !== userId) {
+        throw new ForbiddenError("Only the creator of a bundle can change its cover image", "NOT_BUNDLE_CREATOR");
+    }
+
+    const newImageFilename = `bundle_${bundleId}.${Images.getExtension(contentType)}`;
+    await fs.mkdir(BUNDLE_IMAGE_DIR, { recursive: true });
+    const oldImageFilename: string | null = bundleRecord.image_filename;
+    if (oldImageFilename) {
+        await Images.deleteImageFiles(BUNDLE_IMAGE_DIR, oldImageFilename);
+    }
+    await fs.writeFile(path.join(BUNDLE_IMAGE_DIR, newImageFilename), imageBuffer);
+    await Images.createImageVariants(BUNDLE_IMAGE_DIR, newImageFilename);
+    await pool.query("UPDATE bundle SET image_filename = ? WHERE id = ?", [newImageFilename, bundleId]);
+    return !oldImageFilename;
+}
+
+/**
+ * Deletes a bundle's cover image file and its variants, once the bundle itself has been deleted.
+ */
+async function deleteBundleImageFiles(imageFilename: string): Promise<void> {
+    await Images.deleteImageFiles(BUNDLE_IMAGE_DIR, imageFilename);
+}
+
+export { getBundleImage, setBundleImage, deleteBundleImageFiles }
@@ -0,0 +1,346 @@
+import { getPool } from "../../config/db";
+import * as GameActions from "./game.action.model";
+import * as Purchases from "./user.purchase.model";
+import * as Pricing from "./game.price.model";
+import * as BundleImage from "./bundle.image.model";
+import * as Currency from "../services/currency";
+import { ConflictError, ForbiddenError, NotFoundError, ValidationError } from "../services/errors";
+import { toDbDate } from "../services/dates";
+
+interface BundleGame {
+    gameId: number;
+    title: string;
+    price: number;
+}
+
+interface Bundle {
+    bundleId: number;
+    title: string;
+    description: string;
+    creationDate: string;
+    creatorId: number;
+    creatorFirstName: string;
+    creatorLastName: string;
+    price: number;
+    totalGamePrice: number;
+    savings: number;
+    currency: string;
+    gameIds: number[];
+}
+
+interface DetailedBundle extends Bundle {
+    games: BundleGame[];
+}
+
+interface GetBundlesParams {
+    startIndex: number;
+    count: number;
+    creatorId?: number | null;
+    gameId?: number | null;
+    currency: string;
+}
+
+interface PostBundle {
+    title: string;
+    description: string;
+    price: number;
+    gameIds: number[];
+}
+
+/**
+ * Helper: Looks up the games of the given bundles, each priced in the given currency, grouped by bundle id.
+ */
+const getBundleGames = async (bundleIds: number[], currency: string): Promise<Map<number, BundleGame[]>> => {
+    const gamesByBundle = new Map<number, BundleGame[]>();
+    if (bundleIds.length === 0) return gamesByBundle;
+    const placeholders = bundleIds.map(() => "?").join(",");
+    const query = `
+        SELECT bg.bundle_id AS bundleId, game.id AS gameId, game.title, ${Pricing.LIST_PRICE} AS price
+        FROM bundle_game bg
+        JOIN game ON game.id = bg.game_id
+        ${Pricing.PRICE_JOIN}
+        WHERE bg.bundle_id IN (${placeholders})
+        ORDER BY game.id ASC
+    `;
+    const [rows] = await getPool().query(query, [...Pricing.priceJoinParams(currency), ...bundleIds]);
+    for (const row of rows as any[]) {
+        if (!gamesByBundle.has(row.bundleId)) {
+            gamesByBundle.set(row.bundleId, []);
+        }
+        gamesByBundle.get(row.bundleId).push({ gameId: row.gameId, title: row.title, price: Number(row.price) });
+    }
+    return gamesByBundle;
+};
+
+/**
+ * Helper: Builds a bundle from its row and games. Savings are measured against the games' prices before any
+ * discount, in the same currency as the bundle price.
+ */
+const toBundle = (row: any, games: BundleGame[], currency: string): Bundle => {
+    const price = Math.round(row.price * Currency.conversionRate(currency));
+    const totalGamePrice = games.reduce((total, game) => total + game.price, 0);
+    return {
+        bundleId: row.bundleId,
+        title: row.title,
+        description: row.description,
+        creationDate: new Date(row.creationDate).toISOString(),
+        creatorId: row.creatorId,
+        creatorFirstName: row.creatorFirstName,
+        creatorLastName: row.creatorLastName,
+        price,
+        totalGamePrice,
+        savings: totalGamePrice - price,
+        currency,
+        gameIds: games.map((game) => game.gameId)
+    };
+};
+
+const BUNDLE_COLUMNS = `
+    bundle.id AS bundleId,
+    bundle.title,
+    bundle.description,
+    bundle.creation_date AS creationDate,
+    bundle.creator_id AS creatorId,
+    u.first_name AS creatorFirstName,
+    u.last_name AS creatorLastName,
+    bundle.price
+`;
+
+const getBundles = async (params: GetBundlesParams): Promise<{ bundles: Bundle[]; count: number }> => {
+    const conditions: string[] = [];
+    const queryParams: any[] = [];
+    if (params.creatorId !== null && params.creatorId !== undefined) {
+        conditions.push("bundle.creator_id = ?");
+        queryParams.push(params.creatorId);
+    }
+    // Only bundles that contain the given game.
+    if (params.gameId !== null && params.gameId !== undefined) {
+        conditions.push("bundle.id IN (SELECT bg.bundle_id FROM bundle_game bg WHERE bg.game_id = ?)");
+        queryParams.push(params.gameId);
+    }
+    const whereClause = conditions.length > 0 ? "WHERE " + conditions.join(" AND ") : "";
+
+    const pool = getPool();
+    const [countResult] = await pool.query(`SELECT COUNT(*) AS total FROM bundle ${whereClause}`, queryParams);
+    const query = `
+        SELECT ${BUNDLE_COLUMNS}
+        FROM bundle
+        JOIN user u ON bundle.creator_id = u.id
+        ${whereClause}
+        ORDER BY bundle.creation_date ASC, bundle.id ASC
+        LIMIT ? OFFSET ?
+    `;
+    const [rows] = await pool.query(query, [...queryParams, params.count, params.startIndex]);
+    const gamesByBundle = await getBundleGames((rows as any[]).map((row) => row.bundleId), params.currency);
+    return {
+        bundles: (rows as any[]).map((row) => toBundle(row, gamesByBundle.get(row.bundleId) || [], params.currency)),
+        count: countResult[0].total
+    };
+};
+
+const getBundleById = async (
+    bundleId: number,
+    currency: string = Currency.BASE_CURRENCY
+): Promise<DetailedBundle | null> => {
+    const query = `
+        SELECT ${BUNDLE_COLUMNS}
+        FROM bundle
+        JOIN user u ON bundle.creator_id = u.id
+        WHERE bundle.id = ?
+    `;
+    const [rows] = await getPool().query(query, [bundleId]);
+    if ((rows as any[]).length === 0) {
+        return null;
+    }
+    const games = (await getBundleGames([bundleId], currency)).get(bundleId) || [];
+    return { ...toBundle((rows as any[])[0], games, currency), games };
+};
+
+/**
+ * Helper: Throws unless every game exists and was made by the bundle's creator.
+ */
+const checkBundleGames = async (creatorId: number, gameIds: number[]): Promise<void> => {
+    const placeholders = gameIds.map(() => "?").join(",");
+    const [rows] = await getPool().query(`SELECT id, creator_id FROM game WHERE id IN (${placeholders})`, gameIds);
+    if ((rows as any[]).length !== gameIds.length) {
+        throw new ValidationError("One or more gameIds are invalid", "INVALID_GAME");
+    }
+    if ((rows as any[]).some((row) => row.creator_id !== creatorId)) {
+        throw new ForbiddenError("A bundle can only contain games its creator made", "NOT_GAME_CREATOR");
+    }
+};
+
+/**
+ * Helper: Throws if another bundle already has the title.
+ */
+const checkTitleAvailable = async (title: string, bundleId: number | null = null): Promise<void> => {
+    const [rows] = await getPool().query("SELECT id FROM bundle WHERE title = ? AND id != ?", [title, bundleId ?? -1]);
+    if ((rows as any[]).length > 0) {
+        throw new ConflictError("Bundle title already exists", "BUNDLE_TITLE_TAKEN");
+    }
+};
+
+/**
+ * Helper: Replaces the games of a bundle.
+ */
+const setBundleGames = async (bundleId: number, gameIds: number[]): Promise<void> => {
+    const pool = getPool();
+    await pool.query("DELETE FROM bundle_game WHERE bundle_id = ?", [bundleId]);
+    for (const gameId of gameIds) {
+        await pool.query("INSERT INTO bundle_game (bundle_id, game_id) VALUES (?, ?)", [bundleId, gameId]);
+    }
+};
+
+/**
+ * Helper: Returns the bundle's row, throwing unless it exists and the user is its creator.
+ */
+const getOwnBundle = async (userId: number, bundleId: number): Promise<any> => {
+    const [rows] = await getPool().query("SELECT id, creator_id, image_filename FROM bundle WHERE id = ?", [bundleId]);
+    if (!rows || (rows as any[]).length === 0) {
+        throw new NotFoundError("No bundle found with id", "BUNDLE_NOT_FOUND");
+    }
+    if ((rows as any[])[0].creator_id !== userId) {
+        throw new ForbiddenError("Only the creator of a bundle may change it", "NOT_BUNDLE_CREATOR");
+    }
+    return (rows as any[])[0];
+};
+
+const createBundle = async (creatorId: number, bundleData: PostBundle): Promise<number> => {
+    await checkBundleGames(creatorId, bundleData.gameIds);
+    await checkTitleAvailable(bundleData.title);
+    const pool = getPool();
+    try {
+        await pool.query('START TRANSACTION');
+        const [result] = await pool.query(
+            "INSERT INTO bundle (title, description, creation_date, creator_id, price) VALUES (?, ?, ?, ?, ?)",
+            [bundleData.title, bundleData.description, toDbDate(new Date()), creatorId, bundleData.price]
+        );
+        const bundleId = (result as any).insertId;
+        await setBundleGames(bundleId, bundleData.gameIds);
+        await pool.query('COMMIT');
+        return bundleId;
+    } catch (err) {
+        await pool.query('ROLLBACK');
+        throw err;
+    }
+};
+
+const editBundle = async (userId: number, bundleId: number, updatedData: Partial<PostBundle>): Promise<void> => {
+    await getOwnBundle(userId, bundleId);
+    if (updatedData.gameIds !== undefined) {
+        await checkBundleGames(userId, updatedData.gameIds);
+    }
+    if (updatedData.title !== undefined) {
+        await checkTitleAvailable(updatedData.title, bundleId);
+    }
+    const updateFields: string[] = [];
+    const updateValues: any[] = [];
+    if (updatedData.title !== undefined) {
+        updateFields.push("title = ?");
+        updateValues.push(updatedData.title);
+    }
+    if (updatedData.description !== undefined) {
+        updateFields.push("description = ?");
+        updateValues.push(updatedData.description);
+    }
+    if (updatedData.price !== undefined) {
+        updateFields.push("price = ?");
+        updateValues.push(updatedData.price);
+    }
+    const pool = getPool();
+    try {
+        await pool.query('START TRANSACTION');
+        if (updateFields.length > 0) {
+            await pool.query(`UPDATE bundle SET ${updateFields.join(", ")} WHERE id = ?`, [...updateValues, bundleId]);
+        }
+        if (updatedData.gameIds !== undefined) {
+            await setBundleGames(bundleId, updatedData.gameIds);
+        }
+        await pool.query('COMMIT');
+    } catch (err) {
+        await pool.query('ROLLBACK');
+        throw err;
+    }
+};
+
+/**
+ * Deletes a bundle. Games already owned through it stay owned, and its ledger entries keep the bundle's title.
+ */
+const deleteBundle = async (userId: number, bundleId: number): Promise<void> => {
+    const bundle = await getOwnBundle(userId, bundleId);
+    const pool = getPool();
+    try {
+        await pool.query('START TRANSACTION');
+        await pool.query("DELETE FROM bundle_game WHERE bundle_id = ?", [bundleId]);
+        await Purchases.detachPurchasesFromBundle(bundleId);
+        await pool.query("DELETE FROM bundle WHERE id = ?", [bundleId]);
+        await pool.query('COMMIT');
+    } catch (err) {
+        await pool.query('ROLLBACK');
+        throw err;
+    }
+    if (bundle.image_filename) {
+        await BundleImage.deleteBundleImageFiles(bundle.image_filename);
+    }
+};
+
+/**
+ * Buys a bundle for the user at the bundle price, then marks each of its games the user doesn't own yet as owned,
+ * following the same rules as owning a single game. Every game is checked before anything is written, and the
+ * bundle's ledger entry and the games are recorded in one transaction, so the user never pays for part of a bundle.
+ * Returns the ids of the games that became owned.
+ */
+const buyBundle = async (userId: number, bundleId: number): Promise<number[]> => {
+    const bundle = await getBundleById(bundleId);
+    if (!bundle) {
+        throw new NotFoundError("No bundle found with id", "BUNDLE_NOT_FOUND");
+    }
+    if (bundle.creatorId === userId) {
+        throw new ForbiddenError("Cannot buy a bundle you created", "OWN_BUNDLE");
+    }
+    const newGames: GameActions.OwnableGame[] = [];
+    for (const gameId of bundle.gameIds) {
+        const game = await GameActions.checkGameOwnable(userId, gameId, "bundle");
+        if (game) {
+            newGames.push(game);
+        }
+    }
+    if (newGames.length === 0) {
+        throw new ConflictError("You already own every game in this bundle", "ALREADY_OWNED");
+    }
+    // Every write goes through one connection, so the transaction covers all of them.
+    const connection = await getPool().getConnection();
+    try {
+        await connection.beginTransaction();
+        await Purchases.recordBundlePurchase(
+            userId,
+            { id: bundle.bundleId, title: bundle.title, price: bundle.price },
+            connection
+        );
+        for (const game of newGames) {
+            await GameActions.insertOwnedGame(connection, userId, game, bundleId);
+        }
+        await connection.commit();
+    } catch (err) {
+        await connection.rollback();
+        throw err;
+    } finally {
+        connection.release();
+    }
+    for (const game of newGames) {
+        await GameActions.refreshAfterOwned(userId, game.id);
+    }
+    return newGames.map((game) => game.id);
+};
+
+/**
+ * Takes a game that is being deleted out of every bundle.
+ */
+const removeGameFromBundles = async (gameId: number): Promise<void> => {
+    await getPool().query("DELETE FROM bundle_game WHERE game_id = ?", [gameId]);
+};
+
+export {
+    Bundle, BundleGame, DetailedBundle, GetBundlesParams, PostBundle, getBundles, getBundleById, createBundle,
+    editBundle, deleteBundle, buyBundle, removeGameFromBundles
+}
@@ -1,5 +1,10 @@
 import { getPool } from "../../config/db";
 import Logger from "../../config/logger";
+import * as Aggregates from "./game.aggregate.model";
+import * as Purchases from "./user.purchase.model";
+import * as Pricing from "./game.price.model";
+import * as SimilarGames from "./game.similar.model";
+import { ForbiddenError, NotFoundError, ValidationError } from "../services/errors";
 
 /**
  * Helper: Returns the creator id of a game given its id.
@@ -43,13 +48,13 @@ const addGameToWishlistModel = async (userId: number, gameId: number): Promise<v
 
     const creatorId = await getGameCreatorId(gameId);
     if (creatorId === null) {
-        throw new Error("No game with id");
+        throw new NotFoundError("No game with id", "GAME_NOT_FOUND");
     }
     if (creatorId === userId) {
-        throw new Error("Cannot wishlist a game you created");
+        throw new ForbiddenError("Cannot wishlist a game you created", "OWN_GAME");
     }
     if (await isGameOwnedByUser(userId, gameId)) {
-        throw new Error("Cannot wishlist a game you have marked as owned");
+        throw new ForbiddenError("Cannot wishlist a game you have marked as owned", "ALREADY_OWNED");
     }
     if (await isGameWishlistedByUser(userId, gameId)) {
         // Already wishlisted – silently succeed
@@ -57,6 +62,8 @@ const addGameToWishlistModel = async (userId: number, gameId: number): Promise<v
     }
     const insertQuery = "INSERT INTO wishlist (game_id, user_id) VALUES (?, ?)";
     await pool.query(insertQuery, [gameId, userId]);
+    await Aggregates.refreshActionAggregates(gameId);
+    await SimilarGames.markStaleForPlayer(userId, gameId);
 };
 
 /**
@@ -65,50 +72,114 @@ const addGameToWishlistModel = async (userId: number, gameId: number): Promise<v
 const removeGameFromWishlistModel = async (userId: number, gameId: number): Promise<void> => {
     const pool = getPool();
     if (!(await isGameWishlistedByUser(userId, gameId))) {
-        throw new Error("Game is not wishlisted by the user");
+        throw new ForbiddenError("Game is not wishlisted by the user", "NOT_WISHLISTED");
     }
     const deleteQuery = "DELETE FROM wishlist WHERE game_id = ? AND user_id = ?";
     await pool.query(deleteQuery, [gameId, userId]);
+    await Aggregates.refreshActionAggregates(gameId);
+    await SimilarGames.markStaleForPlayer(userId, gameId);
 };
 
+interface OwnableGame {
+    id: number;
+    title: string;
+    price: number;
+    source: string;
+}
+
 /**
- * Marks a game as owned for the given user.
- * Validates that the game exists and that the user is not its creator.
- * If the game is currently wishlisted by the user, it is removed from wishlist.
+ * Helper: Checks that the user may own the game with the given source, which defaults to "purchase", or "free" for
+ * a game that costs nothing. Validates that the game exists and that the user is not its creator. Returns the game
+ * priced as it would be recorded, or null if the user already owns it.
  */
-const addGameToOwnedModel = async (userId: number, gameId: number): Promise<void> => {
-    const pool = getPool();
-
-    const creatorId = await getGameCreatorId(gameId);
-    if (creatorId === null) {
-        throw new Error("No game with id");
+const checkGameOwnable = async (userId: number, gameId: number, source?: string): Promise<OwnableGame | null> => {
+    const [gameRows] = await getPool().query("SELECT id, title, price, creator_id FROM game WHERE id = ?", [gameId]);
+    if ((gameRows as any[]).length === 0) {
+        throw new NotFoundError("No game with id", "GAME_NOT_FOUND");
     }
-    if (creatorId === userId) {
-        throw new Error("Cannot mark a game you created as owned");
+    // Buyers pay the current price, so a game on sale is recorded at its discounted price.
+    const { currentPrice } = await Pricing.getCurrentPrice(gameId);
+    const row = (gameRows as any[])[0];
+    if (row.creator_id === userId) {
+        throw new ForbiddenError("Cannot mark a game you created as owned", "OWN_GAME");
+    }
+    const purchaseSource = source || (currentPrice > 0 ? "purchase" : "free");
+    if (purchaseSource === "free" && currentPrice > 0) {
+        throw new ValidationError("A game that is not free can not be owned with source free", "INVALID_SOURCE");
     }
     if (await isGameOwnedByUser(userId, gameId)) {
+        return null;
+    }
+    return { id: row.id, title: row.title, price: currentPrice, source: purchaseSource };
+};
+
+/**
+ * Helper: Marks a game checked by checkGameOwnable as owned, taking it off the user's wishlist and recording it in
+ * their purchase ledger. Runs on the connection of the caller's transaction, so a purchase of several games stands
+ * or falls as one.
+ */
+const insertOwnedGame = async (
+    connection: any,
+    userId: number,
+    game: OwnableGame,
+    bundleId: number | null = null
+): Promise<void> => {
+    await connection.query("DELETE FROM wishlist WHERE game_id = ? AND user_id = ?", [game.id, userId]);
+    await connection.query("INSERT INTO owned (game_id, user_id) VALUES (?, ?)", [game.id, userId]);
+    await Purchases.recordPurchase(userId, game, game.source, bundleId, connection);
+};
+
+/**
+ * Helper: Updates what depends on who owns a game, once the user's ownership has been committed.
+ */
+const refreshAfterOwned = async (userId: number, gameId: number): Promise<void> => {
+    await Aggregates.refreshActionAggregates(gameId);
+    await SimilarGames.markStaleForPlayer(userId, gameId);
+};
+
+/**
+ * Marks a game as owned for the given user and records how it was acquired in their purchase ledger.
+ * Validates that the game exists and that the user is not its creator.
+ * If the game is currently wishlisted by the user, it is removed from wishlist.
+ * The source defaults to "purchase", or "free" for a game that costs nothing. Returns false if the game was
+ * already owned, in which case nothing is recorded.
+ */
+const addGameToOwnedModel = async (userId: number, gameId: number, source?: string): Promise<boolean> => {
+    const game = await checkGameOwnable(userId, gameId, source);
+    if (!game) {
         // Already owned; do nothing.
-        return;
+        return false;
     }
-    // Remove from wishlist if present.
-    if (await isGameWishlistedByUser(userId, gameId)) {
-        const deleteQuery = "DELETE FROM wishlist WHERE game_id = ? AND user_id = ?";
-        await pool.query(deleteQuery, [gameId, userId]);
+    const connection = await getPool().getConnection();
+    try {
+        await connection.beginTransaction();
+        await insertOwnedGame(connection, userId, game);
+        await connection.commit();
+    } catch (err) {
+        await connection.rollback();
+        throw err;
+    } finally {
+        connection.release();
     }
-    const insertQuery = "INSERT INTO owned (game_id, user_id) VALUES (?, ?)";
-    await pool.query(insertQuery, [gameId, userId]);
+    await refreshAfterOwned(userId, gameId);
+    return true;
 };
 
 /**
- * Unmarks a game as owned for the given user.
+ * Unmarks a game as owned for the given user. The purchase ledger is left untouched.
  */
 const removeGameFromOwnedModel = async (userId: number, gameId: number): Promise<void> => {
     const pool = getPool();
     if (!(await isGameOwnedByUser(userId, gameId))) {
-        throw new Error("Game is not marked as owned by the user");
+        throw new ForbiddenError("Game is not marked as owned by the user", "NOT_OWNED");
     }
     const deleteQuery = "DELETE FROM owned WHERE game_id = ? AND user_id = ?";
     await pool.query(deleteQuery, [gameId, userId]);
+    await Aggregates.refreshActionAggregates(gameId);
+    await SimilarGames.markStaleForPlayer(userId, gameId);
 };
 
-export { getGameCreatorId, isGameOwnedByUser, isGameWishlistedByUser, addGameToWishlistModel, removeGameFromWishlistModel, addGameToOwnedModel, removeGameFromOwnedModel }
\ No newline at end of file
+export {
+    OwnableGame, getGameCreatorId, isGameOwnedByUser, isGameWishlistedByUser, checkGameOwnable, insertOwnedGame,
+    refreshAfterOwned, addGameToWishlistModel, removeGameFromWishlistModel, addGameToOwnedModel, removeGameFromOwnedModel
+}
\ No newline at end of file
@@ -0,0 +1,45 @@
+import { getPool } from "../../config/db";
+import Logger from "../../config/logger";
+
+// Each game row keeps its own rating_avg, review_count, owner_count and wishlist_count so that listing games
+// doesn't need a correlated subquery per row. The review and action models refresh them whenever they write.
+
+const REVIEW_AGGREGATES = `
+    rating_avg = (SELECT IFNULL(AVG(r.rating), 0) FROM game_review r WHERE r.game_id = game.id),
+    review_count = (SELECT COUNT(*) FROM game_review r WHERE r.game_id = game.id)`;
+const OWNER_AGGREGATES = `
+    owner_count = (SELECT COUNT(*) FROM owned o WHERE o.game_id = game.id)`;
+const WISHLIST_AGGREGATES = `
+    wishlist_count = (SELECT COUNT(*) FROM wishlist w WHERE w.game_id = game.id)`;
+
+/**
+ * Recalculates a game's rating_avg and review_count from its reviews.
+ */
+const refreshReviewAggregates = async (gameId: number): Promise<void> => {
+    await getPool().query(`UPDATE game SET ${REVIEW_AGGREGATES} WHERE id = ?`, [gameId]);
+};
+
+/**
+ * Recalculates a game's owner_count and wishlist_count. Both are refreshed together since marking a game as owned
+ * also removes it from the user's wishlist.
+ */
+const refreshActionAggregates = async (gameId: number): Promise<void> => {
+    await getPool().query(`UPDATE game SET ${OWNER_AGGREGATES}, ${WISHLIST_AGGREGATES} WHERE id = ?`, [gameId]);
+};
+
+/**
+ * Recalculates the aggregates of every game, repairing any drift caused by writing to the review, owned or
+ * wishlist tables directly. Returns the number of games updated.
+ */
+const recomputeAllAggregates = async (): Promise<number> => {
+    try {
+        const [result] = await getPool().query(
+            `UPDATE game SET ${REVIEW_AGGREGATES}, ${OWNER_AGGREGATES}, ${WISHLIST_AGGREGATES}`, []);
+        return result.affectedRows;
+    } catch (err: any) {
+        Logger.error(err.sql);
+        throw err;
+    }
+};
+
+export { refreshReviewAggregates, refreshActionAggregates, recomputeAllAggregates }
@@ -0,0 +1,216 @@
+import path from "path";
+import fs from "fs/promises";
+import { getPool } from "../../config/db";
+import * as Images from "../services/images";
+import { ForbiddenError, NotFoundError, ValidationError } from "../services/errors";
+import { fromDbDate, toDbDate } from "../services/dates";
+
+// Screenshots are stored alongside the cover images, as game_<gameId>_screenshot_<imageId>.<ext>.
+const GALLERY_IMAGE_DIR = path.join(__dirname, "..", "..", "..", "storage", "images");
+
+interface GalleryImage {
+    imageId: number;
+    caption: string | null;
+    position: number;
+    createdAt: string;
+}
+
+/**
+ * Throws unless the game exists and the user is its creator, matching the rules for the cover image.
+ */
+const checkCreator = async (userId: number, gameId: number): Promise<void> => {
+    const pool = getPool();
+    const [rows] = await pool.query("SELECT creator_id FROM game WHERE id = ?", [gameId]);
+    if (!rows || (rows as any[]).length === 0) {
+        throw new NotFoundError("Game not found", "GAME_NOT_FOUND");
+    }
+    if ((rows as any[])[0].creator_id !== userId) {
+        throw new ForbiddenError("Only the creator of a game can change its images", "NOT_GAME_CREATOR");
+    }
+};
+
+/**
+ * Lists a game's gallery images in display order.
+ */
+const getGalleryImages = async (gameId: number): Promise<GalleryImage[]> => {
+    const pool = getPool();
+    const [gameRows] = await pool.query("SELECT id FROM game WHERE id = ?", [gameId]);
+    if (!gameRows || (gameRows as any[]).length === 0) {
+        throw new NotFoundError("Game not found", "GAME_NOT_FOUND");
+    }
+    const query = `
+        SELECT id AS imageId, caption, position, created_at AS createdAt
+        FROM game_image
+        WHERE game_id = ?
+        ORDER BY position ASC
+    `;
+    const [rows] = await pool.query(query, [gameId]);
+    return (rows as any[]).map((row) => ({
+        imageId: row.imageId,
+        caption: row.caption,
+        position: row.position,
+        createdAt: fromDbDate(row.createdAt)
+    }));
+};
+
+/**
+ * Reads one gallery image at the requested size, or returns null if the game has no such image.
+ */
+const getGalleryImage = async (
+    gameId: number,
+    imageId: number,
+    size: string = "full"
+): Promise<{ data: Buffer; contentType: string } | null> => {
+    const pool = getPool();
+    const query = "SELECT image_filename FROM game_image WHERE id = ? AND game_id = ?";
+    const [rows] = await pool.query(query, [imageId, gameId]);
+    if (!rows || (rows as any[]).length === 0) return null;
+    const imageFilename = (rows as any[])[0].image_filename;
+    if (!imageFilename) return null;
+    try {
+        await fs.access(path.join(GALLERY_IMAGE_DIR, imageFilename));
+    } catch {
+        return null;
+    }
+    const data = await fs.readFile(await Images.getImageVariantPath(GALLERY_IMAGE_DIR, imageFilename, size));
+    return { data, contentType: Images.getContentType(imageFilename) };
+};
+
+/**
+ * Adds an image to the end of a game's gallery and returns its id.
+ */
+const addGalleryImage = async (
+    userId: number,
+    gameId: number,
+    imageBuffer: Buffer,
+    contentType: string
+): Promise<number> => {
+    await checkCreator(userId, gameId);
+    const extension = Images.getExtension(contentType);
+    const pool = getPool();
+
+    const positionQuery = "SELECT COALESCE(MAX(position) + 1, 0) AS nextPosition FROM game_image WHERE game_id = ?";
+    const [positionRows] = await pool.query(positionQuery, [gameId]);
+    const position = (positionRows as any[])[0].nextPosition;
+
+    // The filename includes the image id, so insert the row first and fill the filename in once it's known.
+    const insertQuery = `
+        INSERT INTO game_image (game_id, image_filename, caption, position, created_at)
+        VALUES (?, ?, NULL, ?, ?)
+    `;
+    const [insertResult] = await pool.query(insertQuery, [gameId, "", position, toDbDate(new Date())]);
+    const imageId = (insertResult as any).insertId;
+    const imageFilename = `game_${gameId}_screenshot_${imageId}.${extension}`;
+
+    // Until the filename is filled in the row is incomplete, so any failure removes it along with whatever files
+    // were written.
+    try {
+        await fs.mkdir(GALLERY_IMAGE_DIR, { recursive: true });
+        await fs.writeFile(path.join(GALLERY_IMAGE_DIR, imageFilename), imageBuffer);
+        await Images.createImageVariants(GALLERY_IMAGE_DIR, imageFilename);
+        await pool.query("UPDATE game_image SET image_filename = ? WHERE id = ?", [imageFilename, imageId]);
+    } catch (err) {
+        await pool.query("DELETE FROM game_image WHERE id = ?", [imageId]);
+        await Images.deleteImageFiles(GALLERY_IMAGE_DIR, imageFilename);
+        throw err;
+    }
+    return imageId;
+};
+
+/**
+ * Sets or clears (with null) the caption of a gallery image.
+ */
+const editGalleryImageCaption = async (
+    userId: number,
+    gameId: number,
+    imageId: number,
+    caption: string | null
+): Promise<void> => {
+    await checkCreator(userId, gameId);
+    const pool = getPool();
+    const query = "UPDATE game_image SET caption = ? WHERE id = ? AND game_id = ?";
+    const [result] = await pool.query(query, [caption, imageId, gameId]);
+    if ((result as any).affectedRows === 0) {
+        throw new NotFoundError("Image not found", "IMAGE_NOT_FOUND");
+    }
+};
+
+/**
+ * Reorders a game's gallery. imageIds must list every image in the gallery exactly once, in the new order.
+ */
+const reorderGalleryImages = async (userId: number, gameId: number, imageIds: number[]): Promise<void> => {
+    await checkCreator(userId, gameId);
+    const pool = getPool();
+    const [rows] = await pool.query("SELECT id FROM game_image WHERE game_id = ?", [gameId]);
+    const existingIds = (rows as any[]).map((row) => row.id);
+    const isPermutation = imageIds.length === existingIds.length
+        && new Set(imageIds).size === imageIds.length
+        && imageIds.every((id) => existingIds.includes(id));
+    if (!isPermutation) {
+        throw new ValidationError("Invalid imageIds: must list every image of the game exactly once", "INVALID_IMAGE_IDS");
+    }
+
+    try {
+        await pool.query('START TRANSACTION');
+        for (let position = 0; position < imageIds.length; position++) {
+            await pool.query("UPDATE game_image SET position = ? WHERE id = ?", [position, imageIds[position]]);
+        }
+        await pool.query('COMMIT');
+    } catch (err) {
+        await pool.query('ROLLBACK');
+        throw err;
+    }
+};
+
+/**
+ * Removes an image from a game's gallery, closing the gap it leaves in the order.
+ */
+const deleteGalleryImage = async (userId: number, gameId: number, imageId: number): Promise<void> => {
+    await checkCreator(userId, gameId);
+    const pool = getPool();
+    const query = "SELECT image_filename, position FROM game_image WHERE id = ? AND game_id = ?";
+    const [rows] = await pool.query(query, [imageId, gameId]);
+    if (!rows || (rows as any[]).length === 0) {
+        throw new NotFoundError("Image not found", "IMAGE_NOT_FOUND");
+    }
+    const { image_filename: imageFilename, position } = (rows as any[])[0];
+
+    try {
+        await pool.query('START TRANSACTION');
+        await pool.query("DELETE FROM game_image WHERE id = ?", [imageId]);
+        await pool.query(
+            "UPDATE game_image SET position = position - 1 WHERE game_id = ? AND position > ?",
+            [gameId, position]
+        );
+        await pool.query('COMMIT');
+    } catch (err) {
+        await pool.query('ROLLBACK');
+        throw err;
+    }
+    await Images.deleteImageFiles(GALLERY_IMAGE_DIR, imageFilename);
+};
+
+/**
+ * Deletes the gallery rows of a game that is being deleted, returning the filenames so the caller can remove
+ * the files once its transaction has committed.
+ */
+const removeGalleryRows = async (gameId: number): Promise<string[]> => {
+    const pool = getPool();
+    const [rows] = await pool.query("SELECT image_filename FROM game_image WHERE game_id = ?", [gameId]);
+    await pool.query("DELETE FROM game_image WHERE game_id = ?", [gameId]);
+    return (rows as any[]).map((row) => row.image_filename);
+};
+
+/**
+ * Deletes gallery image files and their variants.
+ */
+const deleteGalleryFiles = async (imageFilenames: string[]): Promise<void> => {
+    for (const imageFilename of imageFilenames) {
+        await Images.deleteImageFiles(GALLERY_IMAGE_DIR, imageFilename);
+    }
+};
+
+export {
+    GalleryImage, getGalleryImages, getGalleryImage, addGalleryImage, editGalleryImageCaption,
+    reorderGalleryImages, deleteGalleryImage, removeGalleryRows, deleteGalleryFiles
+}
@@ -2,20 +2,21 @@ import path from "path";
 import fs from "fs/promises";
 import Logger from "../../config/logger";
 import { getPool } from "../../config/db";
+import * as Images from "../services/images";
+import { ForbiddenError, NotFoundError } from "../services/errors";
 
 // Directory where game cover images are stored.
 // TODO recheck this directory works on lab machines
 const GAME_IMAGE_DIR = path.join(__dirname, "..", "..", "..", "storage", "images");
 
-async function getGameImage(gameId: number): Promise<{ data: Buffer; contentType: string } | null> {
+async function getGameImage(gameId: number, size: string = "full"): Promise<{ data: Buffer; contentType: string } | null> {
     try {
         const pool = getPool();
         const query = "SELECT image_filename FROM game WHERE id = ?";
         const [rows] = await pool.query(query, [gameId]);
         Logger.info("length of rows = " + (rows as any[]).length);
         if (!rows || (rows as any[]).length === 0) {
-            Logger.info("error thrown");
-            throw new Error("Game not found");
+            throw new NotFoundError("Game not found", "GAME_NOT_FOUND");
         }
         const imageFileName = (rows as any[])[0].image_filename;
         if (!imageFileName) return null;
@@ -25,17 +26,8 @@ async function getGameImage(gameId: number): Promise<{ data: Buffer; contentType
         } catch {
             return null;
         }
-        const data = await fs.readFile(fullPath);
-        const ext = path.extname(imageFileName).toLowerCase();
-        let contentType = "";
-        if (ext === ".png") {
-            contentType = "image/png";
-        } else if (ext === ".jpeg" || ext === ".jpg") {
-            contentType = "image/jpeg";
-        } else if (ext === ".gif") {
-            contentType = "image/gif";
-        }
-        return { data, contentType };
+        const data = await fs.readFile(await Images.getImageVariantPath(GAME_IMAGE_DIR, imageFileName, size));
+        return { data, contentType: Images.getContentType(imageFileName) };
     } catch (err) {
         Logger.error(err);
         throw err;
@@ -53,25 +45,16 @@ async function setGameImage(
     const query = "SELECT creator_id, image_filename FROM game WHERE id = ?";
     const [rows] = await pool.query(query, [gameId]);
     if (!rows || (rows as any[]).length === 0) {
-        throw new Error("Game not found");
+        throw new NotFoundError("Game not found", "GAME_NOT_FOUND");
     }
     const gameRecord = (rows as any[])[0];
     // Only the game creator is allowed to change its cover image.
     if (gameRecord.creator_id !== userId) {
-        throw new Error("Forbidden: Only the creator of a game can change its cover image");
+        throw new ForbiddenError("Only the creator of a game can change its cover image", "NOT_GAME_CREATOR");
     }
 
     // Determine the file extension based on Content-Type.
-    let extension: string;
-    if (contentType === "image/png") {
-        extension = "png";
-    } else if (contentType === "image/jpeg") {
-        extension = "jpeg";
-    } else if (contentType === "image/gif") {
-        extension = "gif";
-    } else {
-        throw new Error("Unsupported image type");
-    }
+    const extension = Images.getExtension(contentType);
 
     const newImageFilename = `game_${gameId}.${extension}`;
     const newImagePath = path.join(GAME_IMAGE_DIR, newImageFilename);
@@ -79,18 +62,15 @@ async function setGameImage(
     // Ensure the image directory exists.
     await fs.mkdir(GAME_IMAGE_DIR, { recursive: true });
 
+    // Remove the old image and its variants, even if the filename is unchanged, so stale variants aren't served.
     const oldImageFilename: string | null = gameRecord.image_filename;
-    if (oldImageFilename && oldImageFilename !== newImageFilename) {
-        const oldImagePath = path.join(GAME_IMAGE_DIR, oldImageFilename);
-        try {
-            await fs.unlink(oldImagePath);
-        } catch (err) {
-            Logger.error(`Failed to delete old game image: ${oldImagePath}`, err);
-        }
+    if (oldImageFilename) {
+        await Images.deleteImageFiles(GAME_IMAGE_DIR, oldImageFilename);
     }
 
-    // Write the new image file.
+    // Write the new image file and its resized variants.
     await fs.writeFile(newImagePath, imageBuffer);
+    await Images.createImageVariants(GAME_IMAGE_DIR, newImageFilename);
 
     // Update the game record with the new image filename.
     const updateQuery = "UPDATE game SET image_filename = ? WHERE id = ?";
@@ -101,4 +81,11 @@ async function setGameImage(
     return isNew;
 };
 
-export { getGameImage, setGameImage }
+/**
+ * Deletes a game's cover image file and its variants, e.g. once the game itself has been deleted.
+ */
+async function deleteGameImageFiles(imageFilename: string): Promise<void> {
+    await Images.deleteImageFiles(GAME_IMAGE_DIR, imageFilename);
+}
+
+export { getGameImage, setGameImage, deleteGameImageFiles }
@@ -1,17 +1,37 @@
 import { getPool } from "../../config/db";
 import Logger from "../../config/logger";
+import * as Search from "./game.search.model";
+import * as GameImage from "./game.image.model";
+import * as Gallery from "./game.gallery.model";
+import * as Purchases from "./user.purchase.model";
+import * as Pricing from "./game.price.model";
+import * as Bundles from "./bundle.model";
+import * as Notifications from "./user.notification.model";
+import * as SimilarGames from "./game.similar.model";
+import * as Tags from "./game.tag.model";
+import { ConflictError, ForbiddenError, NotFoundError, UnauthorizedError, ValidationError } from "../services/errors";
+import { fromDbDate, toDbDate } from "../services/dates";
+import { BASE_CURRENCY } from "../services/currency";
 
 interface Game {
     gameId: number;
     title: string;
     genreId: number;
+    genreIds: number[];
     creationDate: string;
     creatorId: number;
     price: number;
+    basePrice: number;
+    currentPrice: number;
+    currency: string;
+    discountEndsAt: string | null;
     creatorFirstName: string;
     creatorLastName: string;
     rating: number;
     platformIds: number[];
+    tagIds: number[];
+    relevance?: number;
+    snippet?: string | null;
 }
 
 interface GetGamesParams {
@@ -20,6 +40,8 @@ interface GetGamesParams {
     q?: string;
     genreIds?: number[] | null;
     platformIds?: number[] | null;
+    tagIds?: number[] | null;
+    tagMatch?: string;
     price?: number;
     creatorId?: number | null;
     reviewerId?: number | null;
@@ -27,6 +49,8 @@ interface GetGamesParams {
     ownedByMe?: boolean;
     wishlistedByMe?: boolean;
     userId?: number;
+    cursor?: string;
+    currency?: string;
 }
 
 interface DetailedGame extends Game {
@@ -35,41 +59,143 @@ interface DetailedGame extends Game {
     platformIds: number[];
     numberOfOwners: number;
     numberOfWishlists: number;
+    regionalPrices: { [currency: string]: number };
 }
 
 interface PostGame {
     title: string;
     description: string;
     genreId: number;
+    genreIds?: number[];
     price: number;
     platformIds: number[];
+    tagIds?: number[];
+    regionalPrices?: { [currency: string]: number };
 }
 
+interface SortOption {
+    column: string;              // expression compared against the cursor
+    orderBy: string;             // expression used in ORDER BY
+    direction: "ASC" | "DESC";
+    value: (row: any) => any;    // the value of column for a row of the main query
+}
+
+const byTitle = (row: any) => row.title;
+const byPrice = (row: any) => Number(row.currentPrice);
+const byCreated = (row: any) => row.creationDate;
+const byRating = (row: any) => parseFloat(row.rating);
+
+const SORTS: { [sortBy: string]: SortOption } = {
+    ALPHABETICAL_ASC: { column: "game.title", orderBy: "game.title", direction: "ASC", value: byTitle },
+    ALPHABETICAL_DESC: { column: "game.title", orderBy: "game.title", direction: "DESC", value: byTitle },
+    // Prices sort by what the game costs right now, including any active discount.
+    PRICE_ASC: { column: Pricing.CURRENT_PRICE, orderBy: Pricing.CURRENT_PRICE, direction: "ASC", value: byPrice },
+    PRICE_DESC: { column: Pricing.CURRENT_PRICE, orderBy: Pricing.CURRENT_PRICE, direction: "DESC", value: byPrice },
+    CREATED_ASC: { column: "game.creation_date", orderBy: "game.creation_date", direction: "ASC", value: byCreated },
+    CREATED_DESC: { column: "game.creation_date", orderBy: "game.creation_date", direction: "DESC", value: byCreated },
+    RATING_ASC: { column: "game.rating_avg", orderBy: "game.rating_avg", direction: "ASC", value: byRating },
+    RATING_DESC: { column: "game.rating_avg", orderBy: "game.rating_avg", direction: "DESC", value: byRating },
+    // The column is swapped for the search's relevance expression when used.
+    RELEVANCE: { column: "0", orderBy: "relevance", direction: "DESC", value: (row: any) => parseFloat(row.relevance) }
+};
+
+/**
+ * Helper: Builds the opaque cursor pointing just past the given game in the given sort order.
+ * Dates (returned by MySQL) are flagged so they can be passed back to the driver as dates.
+ */
+const encodeCursor = (sortBy: string, value: any, gameId: number): string => {
+    const isDate = value instanceof Date;
+    const payload = { s: sortBy, v: isDate ? value.toISOString() : value, d: isDate, id: gameId };
+    return Buffer.from(JSON.stringify(payload)).toString("base64url");
+};
+
+/**
+ * Helper: Reverses encodeCursor, rejecting malformed cursors and cursors made for another sortBy.
+ */
+const decodeCursor = (cursor: string, sortBy: string): { value: any; id: number } => {
+    let payload: any;
+    try {
+        payload = JSON.parse(Buffer.from(cursor, "base64url").toString("utf8"));
+    } catch {
+        throw new ValidationError("Invalid cursor", "INVALID_CURSOR");
+    }
+    if (!payload || payload.s !== sortBy || !Number.isInteger(payload.id) || payload.v === undefined) {
+        throw new ValidationError("Invalid cursor", "INVALID_CURSOR");
+    }
+    return { value: payload.d ? new Date(payload.v) : payload.v, id: payload.id };
+};
+
+/**
+ * Helper: Throws unless every id exists in the given lookup table, so filtering by an unknown genre, platform or tag
+ * is reported as a bad request rather than as an empty page.
+ */
+const checkLookupIds = async (table: "genre" | "platform" | "tag", ids: number[]): Promise<void> => {
+    const uniqueIds = Array.from(new Set(ids));
+    const placeholders = uniqueIds.map(() => "?").join(",");
+    const [rows] = await getPool().query(`SELECT id FROM ${table} WHERE id IN (${placeholders})`, uniqueIds);
+    if ((rows as any[]).length !== uniqueIds.length) {
+        throw new ValidationError(`One or more ${table}Ids are invalid`, `INVALID_${table.toUpperCase()}`);
+    }
+};
+
+/**
+ * Helper: Replaces a game's genres. The primary genre comes first and is always included.
+ */
+const setGameGenres = async (gameId: number, primaryGenreId: number, genreIds: number[]): Promise<void> => {
+    const pool = getPool();
+    const allGenreIds = Array.from(new Set([primaryGenreId, ...genreIds]));
+    await pool.query("DELETE FROM game_genres WHERE game_id = ?", [gameId]);
+
+    // Handle differently based on database type
+    if (pool.dbType === 'sqlite') {
+        for (const genreId of allGenreIds) {
+            await pool.query("INSERT INTO game_genres (game_id, genre_id) VALUES (?, ?)", [gameId, genreId]);
+        }
+    } else {
+        const genreValues = allGenreIds.map((genreId) => [gameId, genreId]);
+        await pool.query("INSERT INTO game_genres (game_id, genre_id) VALUES ?", [genreValues]);
+    }
+};
+
 const getGames = async (
     params: GetGamesParams
-): Promise<{ games: Game[]; count: number }> => {
+): Promise<{ games: Game[]; count: number; nextCursor: string | null }> => {
     // Build dynamic WHERE clause and parameters for filters.
     const conditions: string[] = [];
     const queryParams: any[] = [];
+    let search: Search.SearchClause | null = null;
     if (params.q) {
-        conditions.push("(game.title LIKE ? OR game.description LIKE ?)");
-        queryParams.push(`%${params.q}%`, `%${params.q}%`);
+        search = Search.buildSearchClause(params.q);
+        conditions.push(...search.conditions);
+        queryParams.push(...search.conditionParams);
         Logger.info("parameter q", params.q);
     }
+    // Every query joins the pricing tables first, so their parameters come before the search's.
+    const currency = params.currency || BASE_CURRENCY;
+    const joinClause = `${Pricing.PRICE_JOIN} ${search ? search.joinClause : ""}`;
+    const joinParams = [...Pricing.priceJoinParams(currency), ...(search ? search.joinParams : [])];
+    const relevance = search ? search.relevance : "0";
 
+    // Genre filtering: Only include games that have at least one matching genre, primary or not.
     if (params.genreIds && params.genreIds.length > 0) {
+        await checkLookupIds("genre", params.genreIds);
         const placeholders = params.genreIds.map(() => "?").join(",");
-        conditions.push(`game.genre_id IN (${placeholders})`);
+        conditions.push(`game.id IN (
+            SELECT gg.game_id FROM game_genres gg
+            WHERE gg.genre_id IN (${placeholders})
+        )`);
         queryParams.push(...params.genreIds);
         Logger.info("parameter genreIds", params.genreIds);
     }
 
+    // The price filter compares against the current price in the chosen currency, so games on sale below the limit
+    // are included.
     if (params.price !== null) {
         if (params.price === 0) {
-            conditions.push("game.price = 0");
+            conditions.push(`${Pricing.CURRENT_PRICE} = 0`);
             Logger.info("filtering for free games (price = 0)");
         } else {
-            conditions.push("game.price <= ?");
+            conditions.push(`${Pricing.CURRENT_PRICE} <= ?`);
             Logger.info("parameter price LESS THAN", params.price);
             queryParams.push(params.price);
         }
@@ -83,6 +209,7 @@ const getGames = async (
 
     // Platform filtering: Only include games that have at least one matching platform.
     if (params.platformIds && params.platformIds.length > 0) {
+        await checkLookupIds("platform", params.platformIds);
         const placeholders = params.platformIds.map(() => "?").join(",");
         conditions.push(`game.id IN (
             SELECT gp.game_id FROM game_platforms gp
@@ -92,6 +219,27 @@ const getGames = async (
         Logger.info("parameter platformIds", params.platformIds);
     }
 
+    // Tag filtering: games with any of the tags, or with every one of them when tagMatch is ALL.
+    if (params.tagIds && params.tagIds.length > 0) {
+        await checkLookupIds("tag", params.tagIds);
+        const tagIds = Array.from(new Set(params.tagIds));
+        const placeholders = tagIds.map(() => "?").join(",");
+        if (params.tagMatch === "ALL") {
+            conditions.push(`(
+                SELECT COUNT(*) FROM game_tag gt
+                WHERE gt.game_id = game.id AND gt.tag_id IN (${placeholders})
+            ) = ?`);
+            queryParams.push(...tagIds, tagIds.length);
+        } else {
+            conditions.push(`game.id IN (
+                SELECT gt.game_id FROM game_tag gt
+                WHERE gt.tag_id IN (${placeholders})
+            )`);
+            queryParams.push(...tagIds);
+        }
+        Logger.info("parameter tagIds", params.tagIds);
+    }
+
     // Filter games by reviewerId (i.e. where that user has left a review).
     if (params.reviewerId !== null && params.reviewerId !== undefined) {
         conditions.push(`game.id IN (
@@ -105,7 +253,7 @@ const getGames = async (
     // Filter by games owned by the logged-in user.
     if (params.ownedByMe) {
         if (!params.userId) {
-            throw new Error("User ID is required for ownedByMe filter");
+            throw new UnauthorizedError("User ID is required for ownedByMe filter");
         }
         conditions.push(`game.id IN (
             SELECT o.game_id FROM owned o
@@ -118,7 +266,7 @@ const getGames = async (
     // Filter by games wishlisted by the logged-in user.
     if (params.wishlistedByMe) {
         if (!params.userId) {
-            throw new Error("User ID is required for wishlistedByMe filter");
+            throw new UnauthorizedError("User ID is required for wishlistedByMe filter");
         }
         conditions.push(`game.id IN (
             SELECT w.game_id FROM wishlist w
@@ -130,154 +278,180 @@ const getGames = async (
 
     const whereClause = conditions.length > 0 ? "WHERE " + conditions.join(" AND ") : "";
     Logger.info("whereClause = " + whereClause);
-    // TODO this is horrible
-    const allowedSortBys = new Set([
-        "ALPHABETICAL_ASC",
-        "ALPHABETICAL_DESC",
-        "PRICE_ASC",
-        "PRICE_DESC",
-        "CREATED_ASC",
-        "CREATED_DESC",
-        "RATING_ASC",
-        "RATING_DESC"
-    ]);
-
-    let orderByClause = "";
     const sortBy = params.sortBy.trim().toUpperCase();
-
-    if (!allowedSortBys.has(sortBy)) {
-        throw new Error(`Invalid sortBy parameter: ${params.sortBy}`);
-    }
-
-    switch (sortBy) {
-        case "ALPHABETICAL_ASC":
-            orderByClause = "ORDER BY game.title ASC, game.id ASC";
-            break;
-        case "ALPHABETICAL_DESC":
-            orderByClause = "ORDER BY game.title DESC, game.id ASC";
-            break;
-        case "PRICE_ASC":
-            orderByClause = "ORDER BY game.price ASC, game.id ASC";
-            break;
-        case "PRICE_DESC":
-            orderByClause = "ORDER BY game.price DESC, game.id ASC";
-            break;
-        case "CREATED_ASC":
-            orderByClause = "ORDER BY game.creation_date ASC, game.id ASC";
-            break;
-        case "CREATED_DESC":
-            orderByClause = "ORDER BY game.creation_date DESC, game.id ASC";
-            break;
-        case "RATING_ASC":
-            orderByClause = "ORDER BY rating ASC, game.id ASC";
-            break;
-        case "RATING_DESC":
-            orderByClause = "ORDER BY rating DESC, game.id ASC";
-            break;
-        default:
-            orderByClause = "ORDER BY game.creation_date ASC, game.id ASC";
-            Logger.info("ordering by creation date");
+    if (sortBy === "RELEVANCE" && !search) {
+        throw new ValidationError("Invalid sortBy parameter: RELEVANCE requires q", "INVALID_SORT");
+    }
+    const sort = sortBy === "RELEVANCE" ? { ...SORTS.RELEVANCE, column: relevance } : SORTS[sortBy];
+    if (!sort) {
+        throw new ValidationError(`Invalid sortBy parameter: ${params.sortBy}`, "INVALID_SORT");
     }
+    // Ties are always broken by game.id, which keeps the order stable for cursor pagination. A price cursor is only
+    // valid for the currency it was made in.
+    const cursorKey = sortBy.startsWith("PRICE_") ? `${sortBy}:${currency}` : sortBy;
+    const orderByClause = `ORDER BY ${sort.orderBy} ${sort.direction}, game.id ASC`;
 
     // Get a connection pool
     const pool = getPool();
 
     // Count query to get the total matching games (ignoring pagination)
-    const countQuery = `SELECT COUNT(*) as total FROM game ${whereClause}`;
-    const [countResult] = await pool.query(countQuery, queryParams);
+    const countQuery = `SELECT COUNT(*) as total FROM game ${joinClause} ${whereClause}`;
+    const [countResult] = await pool.query(countQuery, [...joinParams, ...queryParams]);
     const totalCount = countResult[0].total;
-    // Build the SELECT for average rating for each game.
-    const ratingSelect = "(SELECT IFNULL(AVG(r.rating), 0) FROM game_review r WHERE r.game_id = game.id) AS rating";
-    // https://www.w3schools.com/sql/func_mysql_ifnull.asp
+
+    // In cursor mode, continue strictly after the last game of the previous page instead of using an offset.
+    let pageClause = whereClause;
+    const pageParams = [...queryParams];
+    let offset = params.startIndex;
+    if (params.cursor) {
+        const cursor = decodeCursor(params.cursor, cursorKey);
+        const comparison = sort.direction === "ASC" ? ">" : "<";
+        const keysetCondition = `(${sort.column} ${comparison} ? OR (${sort.column} = ? AND game.id > ?))`;
+        pageClause = whereClause ? `${whereClause} AND ${keysetCondition}` : `WHERE ${keysetCondition}`;
+        pageParams.push(cursor.value, cursor.value, cursor.id);
+        offset = 0;
+    }
+
     // for info on GROUP_CONCAT see https://www.geeksforgeeks.org/mysql-group_concat-function/
     // Main query to get the game records.
     const mainQuery = `
     SELECT
       game.id AS gameId,
       game.title,
+      game.description,
       game.genre_id AS genreId,
       game.creation_date AS creationDate,
       game.creator_id AS creatorId,
-      game.price,
+      ${Pricing.LIST_PRICE} AS price,
+      ${Pricing.CURRENT_PRICE} AS currentPrice,
+      d.ends_at AS discountEndsAt,
       u.first_name AS creatorFirstName,
       u.last_name AS creatorLastName,
-      ${ratingSelect},
+      game.rating_avg AS rating,
+      ${relevance} AS relevance,
+      (SELECT GROUP_CONCAT(gg.genre_id)
+       FROM game_genres gg
+       WHERE gg.game_id = game.id) AS genreIds,
       (SELECT GROUP_CONCAT(gp.platform_id)
        FROM game_platforms gp
-       WHERE gp.game_id = game.id) AS platformIds
+       WHERE gp.game_id = game.id) AS platformIds,
+      (SELECT GROUP_CONCAT(gt.tag_id)
+       FROM game_tag gt
+       WHERE gt.game_id = game.id) AS tagIds
     FROM game
     JOIN user u ON game.creator_id = u.id
-    ${whereClause}
+    ${joinClause}
+    ${pageClause}
     ${orderByClause}
     LIMIT ? OFFSET ?
     `;
-    const mainQueryParams = [...queryParams, params.count, params.startIndex];
+    // Fetch one extra row to find out whether there is a next page.
+    const mainQueryParams = [...joinParams, ...pageParams, params.count + 1, offset];
     const [rows] = await pool.query(mainQuery, mainQueryParams);
+    let nextCursor: string | null = null;
+    if (rows.length > params.count) {
+        rows.length = params.count;
+        const last = rows[rows.length - 1];
+        if (last) {
+            nextCursor = encodeCursor(cursorKey, sort.value(last), last.gameId);
+        }
+    }
     const games: Game[] = rows.map((row: any) => ({
         gameId: row.gameId,
         title: row.title,
         genreId: row.genreId,
+        genreIds: row.genreIds
+            ? row.genreIds.split(",").map((id: string) => parseInt(id, 10))
+            : [],
         creationDate: new Date(row.creationDate).toISOString(),
         creatorId: row.creatorId,
-        price: row.price,
+        price: Number(row.price),
+        basePrice: Number(row.price),
+        currentPrice: Number(row.currentPrice),
+        currency,
+        discountEndsAt: row.discountEndsAt ? fromDbDate(row.discountEndsAt) : null,
         creatorFirstName: row.creatorFirstName,
         creatorLastName: row.creatorLastName,
         rating: parseFloat(row.rating),
         platformIds: row.platformIds
             ? row.platformIds.split(",").map((id: string) => parseInt(id, 10))
-            : []
+            : [],
+        tagIds: row.tagIds
+            ? row.tagIds.split(",").map((id: string) => parseInt(id, 10))
+            : [],
+        ...(search ? {
+            relevance: parseFloat(row.relevance),
+            snippet: Search.buildSnippet(row.title, row.description, search.terms)
+        } : {})
     }));
     Logger.info("totalCount = " + totalCount);
-    if (totalCount === 0) {
-        throw new Error(`Invalid, no count`);
-    }
     return {
         games,
-        count: totalCount
+        count: totalCount,
+        nextCursor
     };
 };
 
 const editGame = async (
     gameId: number,
-    updatedData: { title?: string; description?: string; genreId?: number; price?: number; platforms?: number[] },
+    updatedData: {
+        title?: string;
+        description?: string;
+        genreId?: number;
+        genreIds?: number[];
+        price?: number;
+        platforms?: number[];
+        tagIds?: number[];
+        regionalPrices?: { [currency: string]: number };
+    },
     userId: number
 ): Promise<void> => {
     const pool = getPool();
     const game = await getGameById(gameId);
     if (!game) {
-        throw new Error("No game found");
+        throw new NotFoundError("No game found", "GAME_NOT_FOUND");
     }
     if (game.creatorId !== userId) {
-        throw new Error("Only the creator of a game may change it");
+        throw new ForbiddenError("Only the creator of a game may change it", "NOT_GAME_CREATOR");
     }
     if (updatedData.title && updatedData.title !== game.title) {
         const [rows] = await pool.query("SELECT id FROM game WHERE title = ? AND id != ?", [updatedData.title, gameId]);
         if ((rows as any[]).length > 0) {
-            throw new Error("Game title already exists");
+            throw new ConflictError("Game title already exists", "GAME_TITLE_TAKEN");
         }
     }
     if (updatedData.genreId !== undefined) {
         const [genreRows] = await pool.query("SELECT id FROM genre WHERE id = ?", [updatedData.genreId]);
         if ((genreRows as any[]).length === 0) {
-            throw new Error("Invalid genreId: genre does not exist");
+            throw new ValidationError("Invalid genreId: genre does not exist", "INVALID_GENRE");
+        }
+    }
+    // Platforms are only checked, and replaced, when the patch includes them.
+    if (updatedData.platforms !== undefined) {
+        if (!Array.isArray(updatedData.platforms) || updatedData.platforms.length === 0) {
+            throw new ValidationError("platformIds must be a non-empty array", "INVALID_PLATFORM");
+        }
+        const placeholders = updatedData.platforms.map(() => "?").join(",");
+        const [platformRows] = await pool.query(
+            `SELECT id FROM platform WHERE id IN (${placeholders})`,
+            updatedData.platforms
+        );
+        if ((platformRows as any[]).length !== updatedData.platforms.length) {
+            throw new ValidationError("One or more platformIds are invalid", "INVALID_PLATFORM");
         }
     }
-    if (
-        !updatedData.platforms ||
-        !Array.isArray(updatedData.platforms) ||
-        updatedData.platforms.length === 0
-    ) {
-        throw new Error("platformIds must be a non-empty array");
+    if (updatedData.genreIds !== undefined && updatedData.genreIds.length > 0) {
+        await checkLookupIds("genre", updatedData.genreIds);
     }
-    const placeholders = updatedData.platforms.map(() => "?").join(",");
-    const [platformRows] = await pool.query(
-        `SELECT id FROM platform WHERE id IN (${placeholders})`,
-        updatedData.platforms
-    );
-    if ((platformRows as any[]).length !== updatedData.platforms.length) {
-        throw new Error("One or more platformIds are invalid");
+    if (updatedData.tagIds !== undefined && updatedData.tagIds.length > 0) {
+        await checkLookupIds("tag", updatedData.tagIds);
     }
 
+    // Wishlisters are told if the price buyers pay goes down, which a change of either kind of price can bring.
+    const pricesBefore = updatedData.price !== undefined || updatedData.regionalPrices !== undefined
+        ? await Pricing.getCurrentPrices(gameId)
+        : null;
+
     const updateFields: string[] = [];
     const updateValues: any[] = [];
 
@@ -303,6 +477,36 @@ const editGame = async (
         updateValues.push(gameId);
         await pool.query(updateQuery, updateValues);
     }
+    if (updatedData.price !== undefined && updatedData.price !== game.price) {
+        await Pricing.recordPriceChange(gameId, updatedData.price);
+    }
+    if (updatedData.regionalPrices !== undefined) {
+        await Pricing.setRegionalPrices(gameId, updatedData.regionalPrices);
+    }
+    if (pricesBefore) {
+        await Pricing.notifyPriceDrops(gameId, pricesBefore);
+    }
+    if (updatedData.tagIds !== undefined) {
+        await Tags.setGameTags(gameId, updatedData.tagIds);
+    }
+    // A new primary genre takes the old one's place unless genreIds lists the genres afresh.
+    const primaryChanged = updatedData.genreId !== undefined && updatedData.genreId !== game.genreId;
+    let genresChanged = false;
+    if (updatedData.genreIds !== undefined || primaryChanged) {
+        const primaryGenreId = updatedData.genreId ?? game.genreId;
+        const otherGenreIds = updatedData.genreIds ?? game.genreIds.filter((id) => id !== game.genreId);
+        await setGameGenres(gameId, primaryGenreId, otherGenreIds);
+        const newGenreIds = Array.from(new Set([primaryGenreId, ...otherGenreIds]));
+        genresChanged = [...newGenreIds].sort().join(",") !== [...game.genreIds].sort().join(",");
+    }
+    const platformsChanged = updatedData.platforms !== undefined &&
+        [...updatedData.platforms].sort().join(",") !== [...game.platformIds].sort().join(",");
+    if (genresChanged || platformsChanged) {
+        await SimilarGames.markStale(gameId);
+    }
+    if (updatedData.title !== undefined || updatedData.description !== undefined) {
+        await Search.indexGame(gameId, updatedData.title ?? game.title, updatedData.description ?? game.description);
+    }
     if (updatedData.platforms !== undefined) {
         await pool.query("DELETE FROM game_platforms WHERE game_id = ?", [gameId]);
 
@@ -323,7 +527,7 @@ const editGame = async (
 };
 
 
-const getGameById = async (gameId: number): Promise<DetailedGame | null> => {
+const getGameById = async (gameId: number, currency: string = BASE_CURRENCY): Promise<DetailedGame | null> => {
     const pool = getPool();
     const query = `
         SELECT
@@ -333,19 +537,24 @@ const getGameById = async (gameId: number): Promise<DetailedGame | null> => {
             game.genre_id AS genreId,
             game.creation_date AS creationDate,
             game.creator_id AS creatorId,
-            game.price,
+            ${Pricing.LIST_PRICE} AS price,
+            ${Pricing.CURRENT_PRICE} AS currentPrice,
+            d.ends_at AS discountEndsAt,
             u.first_name AS creatorFirstName,
             u.last_name AS creatorLastName,
-            (SELECT IFNULL(AVG(r.rating), 0) FROM game_review r WHERE r.game_id = game.id) AS rating,
+            game.rating_avg AS rating,
+            (SELECT GROUP_CONCAT(gg.genre_id) FROM game_genres gg WHERE gg.game_id = game.id) AS genreIds,
             (SELECT GROUP_CONCAT(gp.platform_id) FROM game_platforms gp WHERE gp.game_id = game.id) AS platformIds,
-            (SELECT COUNT(*) FROM owned WHERE game_id = game.id) AS numberOfOwners,
-            (SELECT COUNT(*) FROM wishlist WHERE game_id = game.id) AS numberOfWishlists
+            (SELECT GROUP_CONCAT(gt.tag_id) FROM game_tag gt WHERE gt.game_id = game.id) AS tagIds,
+            game.owner_count AS numberOfOwners,
+            game.wishlist_count AS numberOfWishlists
         FROM game
         JOIN user u ON game.creator_id = u.id
+        ${Pricing.PRICE_JOIN}
         WHERE game.id = ?
     `;
 
-    const [rows] = await pool.query(query, [gameId]);
+    const [rows] = await pool.query(query, [...Pricing.priceJoinParams(currency), gameId]);
     if ((rows as any[]).length === 0) {
         return null;
     }
@@ -356,17 +565,28 @@ const getGameById = async (gameId: number): Promise<DetailedGame | null> => {
         title: row.title,
         description: row.description,
         genreId: row.genreId,
+        genreIds: row.genreIds
+            ? row.genreIds.split(",").map((id: string) => parseInt(id, 10))
+            : [],
         creationDate: new Date(row.creationDate).toISOString(),
         creatorId: row.creatorId,
-        price: row.price,
+        price: Number(row.price),
+        basePrice: Number(row.price),
+        currentPrice: Number(row.currentPrice),
+        currency,
+        discountEndsAt: row.discountEndsAt ? fromDbDate(row.discountEndsAt) : null,
         creatorFirstName: row.creatorFirstName,
         creatorLastName: row.creatorLastName,
         rating: parseFloat(row.rating),
         platformIds: row.platformIds
             ? row.platformIds.split(",").map((id: string) => parseInt(id, 10))
             : [],
+        tagIds: row.tagIds
+            ? row.tagIds.split(",").map((id: string) => parseInt(id, 10))
+            : [],
         numberOfOwners: row.numberOfOwners,
-        numberOfWishlists: row.numberOfWishlists
+        numberOfWishlists: row.numberOfWishlists,
+        regionalPrices: await Pricing.getRegionalPrices(gameId)
     };
 
     return detailedGame;
@@ -382,12 +602,12 @@ const createGame = async (
     // Validate that the provided genre exists.
     const [genreRows] = await pool.query("SELECT id FROM genre WHERE id = ?", [gameData.genreId]);
     if ((genreRows as any[]).length === 0) {
-        throw new Error("Invalid genreId: genre does not exist");
+        throw new ValidationError("Invalid genreId: genre does not exist", "INVALID_GENRE");
     }
 
     // Validate that at least one platform is provided.
     if (!gameData.platformIds || gameData.platformIds.length === 0) {
-        throw new Error("At least one platform is required");
+        throw new ValidationError("At least one platform is required", "INVALID_PLATFORM");
     }
     // Validate that each provided platform exists.
     const placeholders = gameData.platformIds.map(() => "?").join(",");
@@ -396,12 +616,17 @@ const createGame = async (
         gameData.platformIds
     );
     if ((platformRows as any[]).length !== gameData.platformIds.length) {
-        throw new Error("One or more platformIds are invalid");
+        throw new ValidationError("One or more platformIds are invalid", "INVALID_PLATFORM");
+    }
+    if (gameData.genreIds && gameData.genreIds.length > 0) {
+        await checkLookupIds("genre", gameData.genreIds);
+    }
+    if (gameData.tagIds && gameData.tagIds.length > 0) {
+        await checkLookupIds("tag", gameData.tagIds);
     }
 
     // Insert into game table.
-    // Use a database-agnostic approach for the current timestamp
-    const currentDate = new Date().toISOString().slice(0, 19).replace('T', ' ');
+    const currentDate = toDbDate(new Date());
 
     const insertGameQuery = `
         INSERT INTO game (title, description, creation_date, creator_id, genre_id, price)
@@ -420,12 +645,21 @@ const createGame = async (
     } catch (err: any) {
         // If duplicate entry for title occurs, throw an error to be handled by the controller.
         if (err.code === "ER_DUP_ENTRY") {
-            throw new Error("Game title already exists");
+            throw new ConflictError("Game title already exists", "GAME_TITLE_TAKEN");
         } else {
             throw err;
         }
     }
     const gameId = result.insertId;
+    await Search.indexGame(gameId, gameData.title, gameData.description);
+    await Pricing.recordPriceChange(gameId, gameData.price);
+    if (gameData.regionalPrices) {
+        await Pricing.setRegionalPrices(gameId, gameData.regionalPrices);
+    }
+    if (gameData.tagIds) {
+        await Tags.setGameTags(gameId, gameData.tagIds);
+    }
+    await setGameGenres(gameId, gameData.genreId, gameData.genreIds || []);
 
     // Insert into game_platforms table for each platform id.
     // Handle differently based on database type
@@ -447,6 +681,7 @@ const createGame = async (
         const platformValues = gameData.platformIds.map((platformId) => [gameId, platformId]);
         await pool.query(insertPlatformQuery, [platformValues]);
     }
+    await Notifications.notifyNewGame(gameId);
 
     return gameId;
 };
@@ -473,30 +708,50 @@ const getAllPlatforms = async (): Promise<{ platformId: number; name: string }[]
 
 const deleteGameById = async (gameId: number): Promise<void> => {
     const pool = getPool();
-
+    let imageFilename: string | null;
+    let galleryFilenames: string[];
     try {
         await pool.query('START TRANSACTION');
         const reviewQuery = "SELECT COUNT(*) AS reviewCount FROM game_review WHERE game_id = ?";
         const [reviewRows] = await pool.query(reviewQuery, [gameId]);
         const reviewCount = (reviewRows as any[])[0].reviewCount;
         if (reviewCount > 0) {
-            await pool.query('ROLLBACK');
-            throw new Error("Game has reviews");
+            throw new ForbiddenError("Can not delete a game with one or more reviews", "GAME_HAS_REVIEWS");
         }
         await pool.query("DELETE FROM wishlist WHERE game_id = ?", [gameId]);
         await pool.query("DELETE FROM owned WHERE game_id = ?", [gameId]);
+        await Purchases.detachPurchasesFromGame(gameId);
+        await Pricing.removePricingRows(gameId);
+        await Bundles.removeGameFromBundles(gameId);
+        await Notifications.detachNotificationsFromGame(gameId);
+        await SimilarGames.removeGameFromSimilarGames(gameId);
+        await Tags.removeGameTags(gameId);
         await pool.query("DELETE FROM game_platforms WHERE game_id = ?", [gameId]);
+        await pool.query("DELETE FROM game_genres WHERE game_id = ?", [gameId]);
+        await Search.removeGame(gameId);
+        galleryFilenames = await Gallery.removeGalleryRows(gameId);
+        const [imageRows] = await pool.query("SELECT image_filename FROM game WHERE id = ?", [gameId]);
         const deleteQuery = "DELETE FROM game WHERE id = ?";
         const [deleteResult] = await pool.query(deleteQuery, [gameId]);
         if ((deleteResult as any).affectedRows === 0) {
-            await pool.query('ROLLBACK');
-            throw new Error("No game found");
+            throw new NotFoundError("No game found", "GAME_NOT_FOUND");
         }
+        imageFilename = (imageRows as any[])[0].image_filename;
         await pool.query('COMMIT');
     } catch (error) {
         await pool.query('ROLLBACK');
         throw error;
     }
+    // The game is gone once committed, so files that can't be removed are only logged.
+    try {
+        if (imageFilename) {
+            await GameImage.deleteGameImageFiles(imageFilename);
+        }
+        await Gallery.deleteGalleryFiles(galleryFilenames);
+    } catch (err) {
+        Logger.error(`Unable to delete the image files of game ${gameId}`);
+        Logger.error(err);
+    }
 }
 
 export {Game, GetGamesParams, DetailedGame, PostGame, getGames, getGameById, createGame, getAllGenres, getAllPlatforms, deleteGameById, editGame};
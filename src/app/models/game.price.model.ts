@@ -0,0 +1,380 @@
+import { getPool } from "../../config/db";
+import Logger from "../../config/logger";
+import * as Notifications from "./user.notification.model";
+import { ConflictError, ForbiddenError, NotFoundError, ValidationError } from "../services/errors";
+import * as Currency from "../services/currency";
+import { toDbDate, fromDbDate } from "../services/dates";
+
+// How often, in minutes, discounts that have started are looked for so their wishlisters can be told.
+const DISCOUNT_CHECK_MINUTES = 1;
+
+interface Discount {
+    discountId: number;
+    type: string;
+    value: number;
+    startsAt: string;
+    endsAt: string;
+}
+
+interface PriceChange {
+    price: number;
+    changedAt: string;
+}
+
+// A game's price before discount and current price in one currency.
+interface CurrencyPrices {
+    [currency: string]: { basePrice: number; currentPrice: number };
+}
+
+/**
+ * Joins what is needed to price a game in one currency: the currency and its conversion rate as `fx`, the game's
+ * price in that currency if its creator set one as `rp`, and its active discount, if it has one, as `d`. Takes the
+ * currency, its rate and the current time twice as parameters; see priceJoinParams.
+ */
+const PRICE_JOIN = `
+    CROSS JOIN (SELECT ? AS currency, ? AS rate) fx
+    LEFT JOIN game_regional_price rp ON rp.game_id = game.id AND rp.currency = fx.currency
+    LEFT JOIN game_discount d ON d.game_id = game.id AND d.starts_at <= ? AND d.ends_at > ?
+`;
+
+/**
+ * The price of a game in the joined currency before any discount, for queries that include PRICE_JOIN. Falls back
+ * to converting the base price.
+ */
+const LIST_PRICE = "COALESCE(rp.price, CAST(ROUND(game.price * fx.rate) AS SIGNED))";
+
+// Fixed sale prices are set in the base currency, so they are converted like the base price.
+const FIXED_SALE_PRICE = "CAST(ROUND(d.amount * fx.rate) AS SIGNED)";
+
+/**
+ * The price a game sells for right now in the joined currency, for queries that include PRICE_JOIN. Percentage
+ * discounts apply to the list price. A fixed sale price that is not below the list price (after the base price was
+ * lowered, or below a regional price) is ignored.
+ */
+const CURRENT_PRICE = `(CASE
+    WHEN d.id IS NULL THEN ${LIST_PRICE}
+    WHEN d.kind = 'PERCENTAGE' THEN CAST(ROUND(${LIST_PRICE} * (100 - d.amount) / 100.0) AS SIGNED)
+    WHEN ${FIXED_SALE_PRICE} < ${LIST_PRICE} THEN ${FIXED_SALE_PRICE}
+    ELSE ${LIST_PRICE}
+END)`;
+
+/**
+ * Helper: Parses a yyyy-MM-dd hh:mm:ss datetime given in UTC.
+ */
+const parseInputDate = (value: string): Date => {
+    const date = new Date(value.replace(" ", "T") + "Z");
+    if (isNaN(date.getTime())) {
+        throw new ValidationError(`Invalid datetime: ${value}`, "INVALID_DATE");
+    }
+    return date;
+};
+
+/**
+ * The parameters for PRICE_JOIN, pricing in the given (resolved) currency.
+ */
+const priceJoinParams = (currency: string): any[] => {
+    const now = toDbDate(new Date());
+    return [currency, Currency.conversionRate(currency), now, now];
+};
+
+/**
+ * Helper: Throws unless the game exists and the user is its creator.
+ */
+const checkCreator = async (userId: number, gameId: number): Promise<{ price: number }> => {
+    const [rows] = await getPool().query("SELECT creator_id, price FROM game WHERE id = ?", [gameId]);
+    if (!rows || (rows as any[]).length === 0) {
+        throw new NotFoundError("No game found with id", "GAME_NOT_FOUND");
+    }
+    if ((rows as any[])[0].creator_id !== userId) {
+        throw new ForbiddenError("Only the creator of a game can change its price", "NOT_GAME_CREATOR");
+    }
+    return { price: (rows as any[])[0].price };
+};
+
+/**
+ * Returns a game's price before discount, current price, and when the active discount ends (null if there isn't
+ * one), in the given currency (the base currency by default). Returns null if the game doesn't exist.
+ */
+const getCurrentPrice = async (
+    gameId: number,
+    currency: string = Currency.BASE_CURRENCY
+): Promise<{ basePrice: number; currentPrice: number; discountEndsAt: string | null } | null> => {
+    const query = `
+        SELECT ${LIST_PRICE} AS basePrice, ${CURRENT_PRICE} AS currentPrice, d.ends_at AS discountEndsAt
+        FROM game
+        ${PRICE_JOIN}
+        WHERE game.id = ?
+    `;
+    const [rows] = await getPool().query(query, [...priceJoinParams(currency), gameId]);
+    if ((rows as any[]).length === 0) return null;
+    const row = (rows as any[])[0];
+    return {
+        basePrice: Number(row.basePrice),
+        currentPrice: Number(row.currentPrice),
+        discountEndsAt: row.discountEndsAt ? fromDbDate(row.discountEndsAt) : null
+    };
+};
+
+/**
+ * Returns a game's price before discount and current price in every supported currency, keyed by currency code.
+ */
+const getCurrentPrices = async (gameId: number): Promise<CurrencyPrices> => {
+    const prices: CurrencyPrices = {};
+    for (const currency of Currency.SUPPORTED_CURRENCIES) {
+        const { basePrice, currentPrice } = await getCurrentPrice(gameId, currency);
+        prices[currency] = { basePrice, currentPrice };
+    }
+    return prices;
+};
+
+/**
+ * Helper: Tells the game's wishlisters about every currency its price went down in. A drop in the base currency
+ * carries through to every converted price, so it is reported on its own.
+ */
+const notifyDrops = async (
+    gameId: number,
+    oldPrices: { [currency: string]: number },
+    newPrices: { [currency: string]: number }
+): Promise<void> => {
+    const drops: Notifications.PriceDrop[] = Object.keys(newPrices)
+        .filter((currency) => newPrices[currency] < oldPrices[currency])
+        .map((currency) => ({ currency, oldPrice: oldPrices[currency], newPrice: newPrices[currency] }));
+    const baseDrop = drops.find((drop) => drop.currency === Currency.BASE_CURRENCY);
+    if (drops.length > 0) {
+        await Notifications.notifyPriceDrop(gameId, baseDrop ? [baseDrop] : drops);
+    }
+};
+
+const currentPricesOf = (prices: CurrencyPrices): { [currency: string]: number } => {
+    const current: { [currency: string]: number } = {};
+    for (const currency of Object.keys(prices)) {
+        current[currency] = prices[currency].currentPrice;
+    }
+    return current;
+};
+
+/**
+ * Tells the game's wishlisters if its current price is now lower than in `before`, taken with getCurrentPrices
+ * before its price or regional prices changed.
+ */
+const notifyPriceDrops = async (gameId: number, before: CurrencyPrices): Promise<void> => {
+    await notifyDrops(gameId, currentPricesOf(before), currentPricesOf(await getCurrentPrices(gameId)));
+};
+
+/**
+ * Lists every discount of a game, past, active and scheduled, in the order they start.
+ */
+const getDiscounts = async (gameId: number): Promise<Discount[]> => {
+    const pool = getPool();
+    const [gameRows] = await pool.query("SELECT id FROM game WHERE id = ?", [gameId]);
+    if (!gameRows || (gameRows as any[]).length === 0) {
+        throw new NotFoundError("No game found with id", "GAME_NOT_FOUND");
+    }
+    const query = `
+        SELECT id AS discountId, kind AS type, amount AS value, starts_at AS startsAt, ends_at AS endsAt
+        FROM game_discount
+        WHERE game_id = ?
+        ORDER BY starts_at ASC
+    `;
+    const [rows] = await pool.query(query, [gameId]);
+    return (rows as any[]).map((row) => ({
+        ...row,
+        startsAt: fromDbDate(row.startsAt),
+        endsAt: fromDbDate(row.endsAt)
+    }));
+};
+
+/**
+ * Schedules a discount and returns its id. A PERCENTAGE discount takes 1 to 99 percent off the base price, and a
+ * FIXED_PRICE discount sells the game for `value` cents, which must be below the base price. The discount must end
+ * in the future and must not overlap another discount of the same game.
+ */
+const addDiscount = async (
+    userId: number,
+    gameId: number,
+    discount: { type: string; value: number; startsAt: string; endsAt: string }
+): Promise<number> => {
+    const game = await checkCreator(userId, gameId);
+    if (discount.type === "PERCENTAGE" && (discount.value < 1 || discount.value > 99)) {
+        throw new ValidationError("A percentage discount must be between 1 and 99", "INVALID_DISCOUNT");
+    }
+    if (discount.type === "FIXED_PRICE" && discount.value >= game.price) {
+        throw new ValidationError("A fixed sale price must be below the base price", "INVALID_DISCOUNT");
+    }
+    const startsAt = parseInputDate(discount.startsAt);
+    const endsAt = parseInputDate(discount.endsAt);
+    if (endsAt <= startsAt) {
+        throw new ValidationError("endsAt must be after startsAt", "INVALID_DISCOUNT");
+    }
+    if (endsAt <= new Date()) {
+        throw new ValidationError("endsAt must be in the future", "INVALID_DISCOUNT");
+    }
+
+    const pool = getPool();
+    const overlapQuery = "SELECT id FROM game_discount WHERE game_id = ? AND starts_at < ? AND ends_at > ?";
+    const [overlapRows] = await pool.query(overlapQuery, [gameId, toDbDate(endsAt), toDbDate(startsAt)]);
+    if ((overlapRows as any[]).length > 0) {
+        throw new ConflictError("The discount overlaps another discount of this game", "DISCOUNT_OVERLAP");
+    }
+    // A discount that has already started is a price drop now. Later ones are picked up by notifyStartedDiscounts.
+    const startedNow = startsAt <= new Date();
+    const pricesBefore = startedNow ? await getCurrentPrices(gameId) : null;
+    const insertQuery = `
+        INSERT INTO game_discount (game_id, kind, amount, starts_at, ends_at, created_at, price_drop_notified)
+        VALUES (?, ?, ?, ?, ?, ?, ?)
+    `;
+    const [result] = await pool.query(insertQuery, [
+        gameId, discount.type, discount.value, toDbDate(startsAt), toDbDate(endsAt), toDbDate(new Date()), startedNow ? 1 : 0
+    ]);
+    if (pricesBefore) {
+        await notifyPriceDrops(gameId, pricesBefore);
+    }
+    return (result as any).insertId;
+};
+
+/**
+ * Cancels an active or scheduled discount. Discounts that have already ended are kept as history.
+ */
+const deleteDiscount = async (userId: number, gameId: number, discountId: number): Promise<void> => {
+    await checkCreator(userId, gameId);
+    const pool = getPool();
+    const [rows] = await pool.query("SELECT ends_at FROM game_discount WHERE id = ? AND game_id = ?", [discountId, gameId]);
+    if (!rows || (rows as any[]).length === 0) {
+        throw new NotFoundError("No discount found with id", "DISCOUNT_NOT_FOUND");
+    }
+    if (new Date(fromDbDate((rows as any[])[0].ends_at)) <= new Date()) {
+        throw new ForbiddenError("Can not delete a discount that has ended", "DISCOUNT_ENDED");
+    }
+    await pool.query("DELETE FROM game_discount WHERE id = ?", [discountId]);
+};
+
+/**
+ * Tells wishlisters about the discounts that have started since they were scheduled, comparing each game's current
+ * price with its price before discount. Returns how many discounts started.
+ */
+const notifyStartedDiscounts = async (): Promise<number> => {
+    const pool = getPool();
+    const now = toDbDate(new Date());
+    const [rows] = await pool.query(
+        "SELECT id, game_id FROM game_discount WHERE price_drop_notified = 0 AND starts_at <= ? AND ends_at > ?",
+        [now, now]
+    );
+    let started = 0;
+    for (const row of rows as any[]) {
+        // Claim the discount first, so two server processes don't both send its notifications.
+        const [result] = await pool.query(
+            "UPDATE game_discount SET price_drop_notified = 1 WHERE id = ? AND price_drop_notified = 0",
+            [row.id]
+        );
+        if ((result as any).affectedRows === 0) continue;
+        started++;
+        const prices = await getCurrentPrices(row.game_id);
+        const basePrices: { [currency: string]: number } = {};
+        for (const currency of Object.keys(prices)) {
+            basePrices[currency] = prices[currency].basePrice;
+        }
+        await notifyDrops(row.game_id, basePrices, currentPricesOf(prices));
+    }
+    return started;
+};
+
+/**
+ * Starts looking for discounts that have started every DISCOUNT_CHECK_MINUTES, to tell wishlisters about them.
+ */
+const scheduleDiscountNotifications = (): void => {
+    let running = false;
+    const timer = setInterval(async () => {
+        if (running) return;
+        running = true;
+        try {
+            const started = await notifyStartedDiscounts();
+            if (started > 0) {
+                Logger.info(`Sent price drop notifications for ${started} discount(s)`);
+            }
+        } catch (err) {
+            Logger.error("Unable to send price drop notifications for discounts");
+            Logger.error(err);
+        } finally {
+            running = false;
+        }
+    }, DISCOUNT_CHECK_MINUTES * 60 * 1000);
+    timer.unref();
+};
+
+/**
+ * Records a game's new base price in its price history.
+ */
+const recordPriceChange = async (gameId: number, price: number): Promise<void> => {
+    await getPool().query(
+        "INSERT INTO game_price_history (game_id, price, changed_at) VALUES (?, ?, ?)",
+        [gameId, price, toDbDate(new Date())]
+    );
+};
+
+/**
+ * Adds the starting price of every game without any price history, e.g. games inserted directly as sample data.
+ */
+const backfillPriceHistory = async (): Promise<void> => {
+    await getPool().query(`
+        INSERT INTO game_price_history (game_id, price, changed_at)
+        SELECT id, price, creation_date FROM game
+        WHERE id NOT IN (SELECT game_id FROM game_price_history)
+    `);
+};
+
+/**
+ * Lists the base prices a game has had, oldest first.
+ */
+const getPriceHistory = async (gameId: number): Promise<PriceChange[]> => {
+    const pool = getPool();
+    const [gameRows] = await pool.query("SELECT id FROM game WHERE id = ?", [gameId]);
+    if (!gameRows || (gameRows as any[]).length === 0) {
+        throw new NotFoundError("No game found with id", "GAME_NOT_FOUND");
+    }
+    const query = "SELECT price, changed_at AS changedAt FROM game_price_history WHERE game_id = ? ORDER BY changed_at ASC, id ASC";
+    const [rows] = await pool.query(query, [gameId]);
+    return (rows as any[]).map((row) => ({ price: row.price, changedAt: fromDbDate(row.changedAt) }));
+};
+
+/**
+ * Lists the prices the creator has set for a game in other currencies, keyed by currency code.
+ */
+const getRegionalPrices = async (gameId: number): Promise<{ [currency: string]: number }> => {
+    const [rows] = await getPool().query("SELECT currency, price FROM game_regional_price WHERE game_id = ?", [gameId]);
+    const prices: { [currency: string]: number } = {};
+    for (const row of rows as any[]) {
+        prices[row.currency] = row.price;
+    }
+    return prices;
+};
+
+/**
+ * Replaces a game's prices in other currencies. Currencies left out go back to being converted from the base price.
+ */
+const setRegionalPrices = async (gameId: number, prices: { [currency: string]: number }): Promise<void> => {
+    const pool = getPool();
+    await pool.query("DELETE FROM game_regional_price WHERE game_id = ?", [gameId]);
+    for (const currency of Object.keys(prices)) {
+        await pool.query(
+            "INSERT INTO game_regional_price (game_id, currency, price) VALUES (?, ?, ?)",
+            [gameId, currency, prices[currency]]
+        );
+    }
+};
+
+/**
+ * Deletes the discounts, regional prices and price history of a game that is being deleted.
+ */
+const removePricingRows = async (gameId: number): Promise<void> => {
+    const pool = getPool();
+    await pool.query("DELETE FROM game_discount WHERE game_id = ?", [gameId]);
+    await pool.query("DELETE FROM game_regional_price WHERE game_id = ?", [gameId]);
+    await pool.query("DELETE FROM game_price_history WHERE game_id = ?", [gameId]);
+};
+
+export {
+    Discount, PriceChange, CurrencyPrices, PRICE_JOIN, LIST_PRICE, CURRENT_PRICE, priceJoinParams, getCurrentPrice,
+    getCurrentPrices, notifyPriceDrops, getDiscounts, addDiscount, deleteDiscount, notifyStartedDiscounts,
+    scheduleDiscountNotifications, recordPriceChange, backfillPriceHistory, getPriceHistory, getRegionalPrices,
+    setRegionalPrices, removePricingRows
+}
@@ -0,0 +1,182 @@
+import { getPool } from "../../config/db";
+
+// Reviews rated at least this highly count towards the reviewer's tastes.
+const HIGH_RATING = 7;
+
+// How much each kind of interest in a game counts. A game the user both owns and rated highly counts for both.
+const OWNED_WEIGHT = 1;
+const HIGHLY_RATED_WEIGHT = 1;
+const WISHLISTED_WEIGHT = 0.5;
+
+// Weights of the three parts of a score, each of which is between 0 and 1, so scores are too.
+const GENRE_WEIGHT = 0.5;
+const PLATFORM_WEIGHT = 0.2;
+const POPULARITY_WEIGHT = 0.3;
+
+interface Recommendation {
+    gameId: number;
+    title: string;
+    genreId: number;
+    genreIds: number[];
+    platformIds: number[];
+    creatorId: number;
+    rating: number;
+    score: number;
+    reason: string;
+    becauseOfGameId: number | null;
+}
+
+// A game the user has shown interest in, and why.
+interface LikedGame {
+    gameId: number;
+    title: string;
+    genreIds: number[];
+    platformIds: number[];
+    weight: number;
+    owned: boolean;
+    rating: number | null;
+}
+
+const GENRE_IDS = "(SELECT GROUP_CONCAT(gg.genre_id) FROM game_genres gg WHERE gg.game_id = game.id)";
+const PLATFORM_IDS = "(SELECT GROUP_CONCAT(gp.platform_id) FROM game_platforms gp WHERE gp.game_id = game.id)";
+
+const byWeight = (a: LikedGame, b: LikedGame): number => b.weight - a.weight || a.gameId - b.gameId;
+
+const parseIds = (value: string | null): number[] => {
+    return value ? value.split(",").map((id: string) => parseInt(id, 10)) : [];
+};
+
+/**
+ * Helper: Collects the games the user owns, has wishlisted or rated highly, weighting each by how strongly that shows
+ * the user likes it.
+ */
+const getLikedGames = async (userId: number): Promise<LikedGame[]> => {
+    const query = `
+        SELECT game.id AS gameId, game.title, ${GENRE_IDS} AS genreIds, ${PLATFORM_IDS} AS platformIds,
+               'OWNED' AS kind, NULL AS rating
+        FROM owned o JOIN game ON game.id = o.game_id WHERE o.user_id = ?
+        UNION ALL
+        SELECT game.id AS gameId, game.title, ${GENRE_IDS} AS genreIds, ${PLATFORM_IDS} AS platformIds,
+               'WISHLISTED' AS kind, NULL AS rating
+        FROM wishlist w JOIN game ON game.id = w.game_id WHERE w.user_id = ?
+        UNION ALL
+        SELECT game.id AS gameId, game.title, ${GENRE_IDS} AS genreIds, ${PLATFORM_IDS} AS platformIds,
+               'RATED' AS kind, r.rating
+        FROM game_review r JOIN game ON game.id = r.game_id WHERE r.user_id = ? AND r.rating >= ?
+    `;
+    const [rows] = await getPool().query(query, [userId, userId, userId, HIGH_RATING]);
+    const liked = new Map<number, LikedGame>();
+    for (const row of rows as any[]) {
+        let game = liked.get(row.gameId);
+        if (!game) {
+            game = {
+                gameId: row.gameId,
+                title: row.title,
+                genreIds: parseIds(row.genreIds),
+                platformIds: parseIds(row.platformIds),
+                weight: 0,
+                owned: false,
+                rating: null
+            };
+            liked.set(row.gameId, game);
+        }
+        if (row.kind === "OWNED") {
+            game.owned = true;
+            game.weight += OWNED_WEIGHT;
+        } else if (row.kind === "WISHLISTED") {
+            game.weight += WISHLISTED_WEIGHT;
+        } else {
+            game.rating = row.rating;
+            game.weight += HIGHLY_RATED_WEIGHT;
+        }
+    }
+    return Array.from(liked.values());
+};
+
+/**
+ * Helper: Says why a liked game led to a recommendation, naming the strongest kind of interest in it.
+ */
+const describeReason = (game: LikedGame): string => {
+    if (game.rating !== null) {
+        return `Because you rated ${game.title} ${game.rating}/10`;
+    }
+    return game.owned ? `Because you own ${game.title}` : `Because you wishlisted ${game.title}`;
+};
+
+/**
+ * Recommends games the user doesn't own, hasn't wishlisted or reviewed and didn't create, best first. Each game is scored on how
+ * much of the user's interest is in its genres and platforms, plus how popular and well rated it is, and names the
+ * liked game sharing a genre that led to it. Users without any interest yet get the most popular games.
+ */
+const getRecommendations = async (userId: number, count: number): Promise<Recommendation[]> => {
+    const liked = await getLikedGames(userId);
+    const totalWeight = liked.reduce((sum, game) => sum + game.weight, 0);
+    const genreWeights = new Map<number, number>();
+    const platformWeights = new Map<number, number>();
+    for (const game of liked) {
+        for (const genreId of game.genreIds) {
+            genreWeights.set(genreId, (genreWeights.get(genreId) || 0) + game.weight);
+        }
+        for (const platformId of game.platformIds) {
+            platformWeights.set(platformId, (platformWeights.get(platformId) || 0) + game.weight);
+        }
+    }
+
+    const candidateQuery = `
+        SELECT game.id AS gameId, game.title, game.genre_id AS genreId, ${GENRE_IDS} AS genreIds,
+               ${PLATFORM_IDS} AS platformIds, game.creator_id AS creatorId, game.rating_avg AS rating,
+               game.owner_count + game.wishlist_count AS players
+        FROM game
+        WHERE game.creator_id <> ?
+          AND game.id NOT IN (SELECT game_id FROM owned WHERE user_id = ?)
+          AND game.id NOT IN (SELECT game_id FROM wishlist WHERE user_id = ?)
+          AND game.id NOT IN (SELECT game_id FROM game_review WHERE user_id = ?)
+    `;
+    const [rows] = await getPool().query(candidateQuery, [userId, userId, userId, userId]);
+    const candidates = rows as any[];
+    const maxPlayers = candidates.reduce((max, row) => Math.max(max, Number(row.players)), 0);
+
+    const recommendations = candidates.map((row) => {
+        const genreIds = parseIds(row.genreIds);
+        const platformIds = parseIds(row.platformIds);
+        const rating = parseFloat(row.rating);
+        const genreAffinity = totalWeight > 0
+            ? Math.max(0, ...genreIds.map((id) => (genreWeights.get(id) || 0) / totalWeight))
+            : 0;
+        const platformAffinity = totalWeight > 0
+            ? Math.max(0, ...platformIds.map((id) => (platformWeights.get(id) || 0) / totalWeight))
+            : 0;
+        // Player counts are log-scaled so a few hit games don't drown out everything else.
+        const popularity = (maxPlayers > 0 ? Math.log1p(Number(row.players)) / Math.log1p(maxPlayers) : 0) / 2
+            + rating / 20;
+        const score = GENRE_WEIGHT * genreAffinity + PLATFORM_WEIGHT * platformAffinity + POPULARITY_WEIGHT * popularity;
+
+        // Credit the most liked game sharing a genre. Platforms are too broad to credit a single game for.
+        const because = liked
+            .filter((game) => game.genreIds.some((id) => genreIds.includes(id)))
+            .sort(byWeight)[0] || null;
+        let reason = "Popular with other players";
+        if (because) {
+            reason = describeReason(because);
+        } else if (platformAffinity > 0) {
+            reason = "Popular on the platforms you play on";
+        }
+        return {
+            gameId: row.gameId,
+            title: row.title,
+            genreId: row.genreId,
+            genreIds,
+            platformIds,
+            creatorId: row.creatorId,
+            rating,
+            score: Math.round(score * 10000) / 10000,
+            reason,
+            becauseOfGameId: because ? because.gameId : null
+        };
+    });
+    return recommendations
+        .sort((a, b) => b.score - a.score || a.gameId - b.gameId)
+        .slice(0, count);
+};
+
+export { Recommendation, getRecommendations }
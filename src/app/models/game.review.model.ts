@@ -1,12 +1,28 @@
 import { getPool } from "../../config/db";
 import Logger from "../../config/logger";
+import * as Aggregates from "./game.aggregate.model";
+import * as Votes from "./game.review.vote.model";
+import * as Replies from "./game.review.reply.model";
+import * as Notifications from "./user.notification.model";
+import { ConflictError, ForbiddenError, NotFoundError, ValidationError } from "../services/errors";
+import { fromDbDate, toDbDate } from "../services/dates";
 
-const getReviewsByGameId = async (gameId: number): Promise<any[]> => {
+// Review orderings for the sortBy query parameter. HELPFUL ranks by helpful minus unhelpful votes, newest first on a tie.
+const REVIEW_ORDERS: { [sortBy: string]: string } = {
+    CREATED_DESC: "gr.timestamp DESC",
+    HELPFUL: "COALESCE(v.helpfulCount, 0) - COALESCE(v.unhelpfulCount, 0) DESC, gr.timestamp DESC"
+};
+
+const getReviewsByGameId = async (gameId: number, sortBy: string = "CREATED_DESC"): Promise<any[]> => {
+    const order = REVIEW_ORDERS[sortBy];
+    if (!order) {
+        throw new ValidationError("Invalid sortBy value", "INVALID_SORT");
+    }
     const pool = getPool();
     const gameQuery = "SELECT id FROM game WHERE id = ?";
     const [gameRows] = await pool.query(gameQuery, [gameId]);
     if (!gameRows || (gameRows as any[]).length === 0) {
-        throw new Error("No game found with id");
+        throw new NotFoundError("No game found with id", "GAME_NOT_FOUND");
     }
     const reviewQuery = `
         SELECT
@@ -14,15 +30,37 @@ const getReviewsByGameId = async (gameId: number): Promise<any[]> => {
             gr.rating,
             gr.review,
             gr.timestamp,
+            gr.edited,
             u.first_name AS reviewerFirstName,
-            u.last_name AS reviewerLastName
+            u.last_name AS reviewerLastName,
+            COALESCE(v.helpfulCount, 0) AS helpfulCount,
+            COALESCE(v.unhelpfulCount, 0) AS unhelpfulCount,
+            rr.reply AS replyText,
+            rr.timestamp AS replyTimestamp,
+            rr.edited AS replyEdited
         FROM game_review gr
         JOIN user u ON gr.user_id = u.id
+        LEFT JOIN review_reply rr ON rr.review_id = gr.id
+        LEFT JOIN (
+            SELECT review_id,
+                   COUNT(CASE WHEN helpful = 1 THEN 1 END) AS helpfulCount,
+                   COUNT(CASE WHEN helpful = 0 THEN 1 END) AS unhelpfulCount
+            FROM review_vote
+            GROUP BY review_id
+        ) v ON v.review_id = gr.id
         WHERE gr.game_id = ?
-        ORDER BY gr.timestamp DESC
+        ORDER BY ${order}
     `;
     const [reviewRows] = await pool.query(reviewQuery, [gameId]);
-    return reviewRows as any[];
+    // The creator's reply, if any, is nested under its review.
+    return (reviewRows as any[]).map(({ replyText, replyTimestamp, replyEdited, ...review }) => ({
+        ...review,
+        reply: replyText === null ? null : {
+            reply: replyText,
+            timestamp: fromDbDate(replyTimestamp),
+            edited: replyEdited === null ? null : fromDbDate(replyEdited)
+        }
+    }));
 };
 
 const addReview = async (
@@ -35,22 +73,91 @@ const addReview = async (
     const gameQuery = "SELECT creator_id FROM game WHERE id = ?";
     const [gameRows] = await pool.query(gameQuery, [gameId]);
     if (!gameRows || (gameRows as any[]).length === 0) {
-        throw new Error("No game found with id");
+        throw new NotFoundError("No game found with id", "GAME_NOT_FOUND");
     }
     const creatorId = (gameRows as any[])[0].creator_id;
     if (creatorId === userId) {
-        throw new Error("Cannot review your own game");
+        throw new ForbiddenError("Cannot review your own game", "OWN_GAME");
     }
     const reviewCheckQuery = "SELECT id FROM game_review WHERE game_id = ? AND user_id = ?";
     const [existingRows] = await pool.query(reviewCheckQuery, [gameId, userId]);
     if (existingRows && (existingRows as any[]).length > 0) {
-        throw new Error("Can only review a game once");
+        throw new ConflictError("Can only review a game once", "ALREADY_REVIEWED");
     }
     if (rating < 1 || rating > 10) {
-        throw new Error("Rating must be between 1 and 10");
+        throw new ValidationError("Rating must be between 1 and 10", "INVALID_RATING");
     }
     const insertQuery = "INSERT INTO game_review (game_id, user_id, rating, review) VALUES (?, ?, ?, ?)";
     await pool.query(insertQuery, [gameId, userId, rating, review || null]);
+    await Aggregates.refreshReviewAggregates(gameId);
+    await Notifications.notifyNewReview(gameId, userId, rating);
+};
+
+const editReview = async (
+    userId: number,
+    gameId: number,
+    updatedData: { rating?: number; review?: string }
+): Promise<void> => {
+    const pool = getPool();
+    const gameQuery = "SELECT id FROM game WHERE id = ?";
+    const [gameRows] = await pool.query(gameQuery, [gameId]);
+    if (!gameRows || (gameRows as any[]).length === 0) {
+        throw new NotFoundError("No game found with id", "GAME_NOT_FOUND");
+    }
+    const reviewCheckQuery = "SELECT id FROM game_review WHERE game_id = ? AND user_id = ?";
+    const [existingRows] = await pool.query(reviewCheckQuery, [gameId, userId]);
+    if (!existingRows || (existingRows as any[]).length === 0) {
+        throw new NotFoundError("No review found for user", "REVIEW_NOT_FOUND");
+    }
+    if (updatedData.rating !== undefined && (updatedData.rating < 1 || updatedData.rating > 10)) {
+        throw new ValidationError("Rating must be between 1 and 10", "INVALID_RATING");
+    }
+
+    const updateFields: string[] = [];
+    const updateValues: any[] = [];
+    if (updatedData.rating !== undefined) {
+        updateFields.push("rating = ?");
+        updateValues.push(updatedData.rating);
+    }
+    if (updatedData.review !== undefined) {
+        updateFields.push("review = ?");
+        updateValues.push(updatedData.review);
+    }
+    const currentDate = toDbDate(new Date());
+    updateFields.push("edited = ?");
+    updateValues.push(currentDate);
+
+    const updateQuery = `UPDATE game_review SET ${updateFields.join(", ")} WHERE game_id = ? AND user_id = ?`;
+    await pool.query(updateQuery, [...updateValues, gameId, userId]);
+    if (updatedData.rating !== undefined) {
+        await Aggregates.refreshReviewAggregates(gameId);
+    }
+};
+
+const deleteReview = async (userId: number, gameId: number): Promise<void> => {
+    const pool = getPool();
+    const gameQuery = "SELECT id FROM game WHERE id = ?";
+    const [gameRows] = await pool.query(gameQuery, [gameId]);
+    if (!gameRows || (gameRows as any[]).length === 0) {
+        throw new NotFoundError("No game found with id", "GAME_NOT_FOUND");
+    }
+    const reviewQuery = "SELECT id FROM game_review WHERE game_id = ? AND user_id = ?";
+    const [reviewRows] = await pool.query(reviewQuery, [gameId, userId]);
+    if (!reviewRows || (reviewRows as any[]).length === 0) {
+        throw new NotFoundError("No review found for user", "REVIEW_NOT_FOUND");
+    }
+    const reviewId = (reviewRows as any[])[0].id;
+    try {
+        await pool.query('START TRANSACTION');
+        await Votes.removeVotesForReview(reviewId);
+        await Replies.removeReplyForReview(reviewId);
+        await pool.query("DELETE FROM game_review WHERE id = ?", [reviewId]);
+        await pool.query('COMMIT');
+    } catch (err) {
+        await pool.query('ROLLBACK');
+        throw err;
+    }
+    await Aggregates.refreshReviewAggregates(gameId);
 };
 
-export { getReviewsByGameId, addReview };
\ No newline at end of file
+export { getReviewsByGameId, addReview, editReview, deleteReview };
\ No newline at end of file
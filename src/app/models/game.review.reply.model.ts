@@ -0,0 +1,64 @@
+import { getPool } from "../../config/db";
+import { ConflictError, ForbiddenError, NotFoundError } from "../services/errors";
+import { toDbDate } from "../services/dates";
+
+/**
+ * Helper: Returns the id of the review a user wrote on a game, throwing unless the game exists, the user replying
+ * is its creator, and the review exists.
+ */
+const getRepliableReviewId = async (creatorId: number, gameId: number, reviewerId: number): Promise<number> => {
+    const pool = getPool();
+    const [gameRows] = await pool.query("SELECT creator_id FROM game WHERE id = ?", [gameId]);
+    if (!gameRows || (gameRows as any[]).length === 0) {
+        throw new NotFoundError("No game found with id", "GAME_NOT_FOUND");
+    }
+    if ((gameRows as any[])[0].creator_id !== creatorId) {
+        throw new ForbiddenError("Only the creator of a game can reply to its reviews", "NOT_GAME_CREATOR");
+    }
+    const [reviewRows] = await pool.query("SELECT id FROM game_review WHERE game_id = ? AND user_id = ?", [gameId, reviewerId]);
+    if (!reviewRows || (reviewRows as any[]).length === 0) {
+        throw new NotFoundError("No review found for user", "REVIEW_NOT_FOUND");
+    }
+    return (reviewRows as any[])[0].id;
+};
+
+const addReply = async (creatorId: number, gameId: number, reviewerId: number, reply: string): Promise<void> => {
+    const reviewId = await getRepliableReviewId(creatorId, gameId, reviewerId);
+    const pool = getPool();
+    const [existingRows] = await pool.query("SELECT review_id FROM review_reply WHERE review_id = ?", [reviewId]);
+    if (existingRows && (existingRows as any[]).length > 0) {
+        throw new ConflictError("Can only reply to a review once", "ALREADY_REPLIED");
+    }
+    await pool.query(
+        "INSERT INTO review_reply (review_id, reply, timestamp) VALUES (?, ?, ?)",
+        [reviewId, reply, toDbDate(new Date())]
+    );
+};
+
+const editReply = async (creatorId: number, gameId: number, reviewerId: number, reply: string): Promise<void> => {
+    const reviewId = await getRepliableReviewId(creatorId, gameId, reviewerId);
+    const [result] = await getPool().query(
+        "UPDATE review_reply SET reply = ?, edited = ? WHERE review_id = ?",
+        [reply, toDbDate(new Date()), reviewId]
+    );
+    if ((result as any).affectedRows === 0) {
+        throw new NotFoundError("No reply found for review", "REPLY_NOT_FOUND");
+    }
+};
+
+const deleteReply = async (creatorId: number, gameId: number, reviewerId: number): Promise<void> => {
+    const reviewId = await getRepliableReviewId(creatorId, gameId, reviewerId);
+    const [result] = await getPool().query("DELETE FROM review_reply WHERE review_id = ?", [reviewId]);
+    if ((result as any).affectedRows === 0) {
+        throw new NotFoundError("No reply found for review", "REPLY_NOT_FOUND");
+    }
+};
+
+/**
+ * Deletes the reply to a review that is being deleted.
+ */
+const removeReplyForReview = async (reviewId: number): Promise<void> => {
+    await getPool().query("DELETE FROM review_reply WHERE review_id = ?", [reviewId]);
+};
+
+export { addReply, editReply, deleteReply, removeReplyForReview }
@@ -0,0 +1,60 @@
+import { getPool } from "../../config/db";
+import { ForbiddenError, NotFoundError } from "../services/errors";
+import { toDbDate } from "../services/dates";
+
+/**
+ * Helper: Returns the id of the review a user wrote on a game, throwing if the game or review doesn't exist.
+ */
+const getReviewId = async (gameId: number, reviewerId: number): Promise<number> => {
+    const pool = getPool();
+    const [gameRows] = await pool.query("SELECT id FROM game WHERE id = ?", [gameId]);
+    if (!gameRows || (gameRows as any[]).length === 0) {
+        throw new NotFoundError("No game found with id", "GAME_NOT_FOUND");
+    }
+    const [reviewRows] = await pool.query("SELECT id FROM game_review WHERE game_id = ? AND user_id = ?", [gameId, reviewerId]);
+    if (!reviewRows || (reviewRows as any[]).length === 0) {
+        throw new NotFoundError("No review found for user", "REVIEW_NOT_FOUND");
+    }
+    return (reviewRows as any[])[0].id;
+};
+
+/**
+ * Records the user's vote on a review, replacing any vote they made on it before.
+ */
+const voteOnReview = async (userId: number, gameId: number, reviewerId: number, helpful: boolean): Promise<void> => {
+    const reviewId = await getReviewId(gameId, reviewerId);
+    if (reviewerId === userId) {
+        throw new ForbiddenError("Cannot vote on your own review", "OWN_REVIEW");
+    }
+    const pool = getPool();
+    const [result] = await pool.query(
+        "UPDATE review_vote SET helpful = ? WHERE review_id = ? AND user_id = ?",
+        [helpful ? 1 : 0, reviewId, userId]
+    );
+    if ((result as any).affectedRows === 0) {
+        await pool.query(
+            "INSERT INTO review_vote (review_id, user_id, helpful, created_at) VALUES (?, ?, ?, ?)",
+            [reviewId, userId, helpful ? 1 : 0, toDbDate(new Date())]
+        );
+    }
+};
+
+/**
+ * Withdraws the user's vote on a review.
+ */
+const removeVote = async (userId: number, gameId: number, reviewerId: number): Promise<void> => {
+    const reviewId = await getReviewId(gameId, reviewerId);
+    const [result] = await getPool().query("DELETE FROM review_vote WHERE review_id = ? AND user_id = ?", [reviewId, userId]);
+    if ((result as any).affectedRows === 0) {
+        throw new NotFoundError("You have not voted on this review", "VOTE_NOT_FOUND");
+    }
+};
+
+/**
+ * Deletes every vote on a review that is being deleted.
+ */
+const removeVotesForReview = async (reviewId: number): Promise<void> => {
+    await getPool().query("DELETE FROM review_vote WHERE review_id = ?", [reviewId]);
+};
+
+export { voteOnReview, removeVote, removeVotesForReview }
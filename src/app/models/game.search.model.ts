@@ -0,0 +1,140 @@
+import { getPool } from "../../config/db";
+import Logger from "../../config/logger";
+
+// Search terms shorter than this can't use the trigram index and are matched with LIKE instead.
+const MIN_INDEXED_TERM_LENGTH = 3;
+const SNIPPET_RADIUS = 40;
+
+interface SearchClause {
+    joinClause: string;       // joins the matching games as `search` (game_id, relevance), if any terms are indexed
+    joinParams: any[];
+    conditions: string[];     // extra WHERE conditions for the short terms
+    conditionParams: any[];
+    relevance: string;        // expression for a game's relevance, higher is better
+    terms: string[];
+}
+
+/**
+ * Builds the SQL needed to restrict a game query to games matching every word of `q`, in either the title or the
+ * description, along with an expression ranking them by relevance.
+ * SQLite searches the `game_search` FTS5 table (trigram tokenised, so words match anywhere like `LIKE %q%` did).
+ * MySQL searches the FULLTEXT index on game(title, description).
+ */
+const buildSearchClause = (q: string): SearchClause => {
+    const pool = getPool();
+    const terms = q.split(/\s+/).filter(term => term.length > 0);
+    const indexedTerms = terms.filter(term => term.length >= MIN_INDEXED_TERM_LENGTH);
+    const shortTerms = terms.filter(term => term.length < MIN_INDEXED_TERM_LENGTH);
+
+    const conditions: string[] = [];
+    const conditionParams: any[] = [];
+    for (const term of shortTerms) {
+        conditions.push("(game.title LIKE ? OR game.description LIKE ?)");
+        conditionParams.push(`%${term}%`, `%${term}%`);
+    }
+
+    if (indexedTerms.length === 0) {
+        return { joinClause: "", joinParams: [], conditions, conditionParams, relevance: "0", terms };
+    }
+
+    let joinClause: string;
+    let joinParams: any[];
+    if (pool.dbType === 'sqlite') {
+        // Each term is quoted so FTS5 treats it as a literal string, terms are implicitly ANDed.
+        // bm25 is lower for better matches, and title matches are weighted above description matches.
+        const matchExpression = indexedTerms.map(term => `"${term.replace(/"/g, '""')}"`).join(" ");
+        joinClause = `JOIN (
+            SELECT rowid AS game_id, -bm25(game_search, 10.0, 1.0) AS relevance
+            FROM game_search
+            WHERE game_search MATCH ?
+        ) search ON search.game_id = game.id`;
+        joinParams = [matchExpression];
+    } else {
+        // Strip boolean mode operators from the terms, then require every term as a prefix.
+        const words = indexedTerms.map(term => term.replace(/[+\-><()~*"@]/g, "")).filter(word => word.length > 0);
+        const booleanExpression = words.map(word => `+${word}*`).join(" ");
+        joinClause = `JOIN (
+            SELECT id AS game_id, MATCH(title, description) AGAINST (? IN NATURAL LANGUAGE MODE) AS relevance
+            FROM game
+            WHERE MATCH(title, description) AGAINST (? IN BOOLEAN MODE)
+        ) search ON search.game_id = game.id`;
+        joinParams = [words.join(" "), booleanExpression];
+    }
+    return { joinClause, joinParams, conditions, conditionParams, relevance: "search.relevance", terms };
+};
+
+/**
+ * Helper: Escapes text for inclusion in an HTML snippet.
+ */
+const escapeHtml = (text: string): string => {
+    return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+};
+
+/**
+ * Returns a short extract of the description (or the title, if only it matches) around the first search term,
+ * with every term wrapped in <mark></mark>. Returns null if neither contains a term.
+ */
+const buildSnippet = (title: string, description: string, terms: string[]): string | null => {
+    const lowerTerms = terms.map(term => term.toLowerCase());
+    const firstMatch = (value: string): number => {
+        const positions = lowerTerms.map(term => value.toLowerCase().indexOf(term)).filter(position => position >= 0);
+        return positions.length > 0 ? Math.min(...positions) : -1;
+    };
+
+    let text = description;
+    let index = firstMatch(description);
+    if (index < 0) {
+        text = title;
+        index = firstMatch(title);
+    }
+    if (index < 0) {
+        return null;
+    }
+
+    const start = Math.max(0, index - SNIPPET_RADIUS);
+    const end = Math.min(text.length, index + SNIPPET_RADIUS);
+    const excerpt = text.slice(start, end);
+    const escapedTerms = terms.map(term => term.replace(/[.*+?^${}()|[\]\\]/g, "\\$&"));
+    const pattern = new RegExp("(" + escapedTerms.join("|") + ")", "i");
+    // Splitting on a capturing group leaves the matched terms at the odd indexes.
+    const highlighted = excerpt.split(pattern)
+        .map((part, i) => i % 2 === 1 ? `<mark>${escapeHtml(part)}</mark>` : escapeHtml(part))
+        .join("");
+    return (start > 0 ? "..." : "") + highlighted + (end < text.length ? "..." : "");
+};
+
+/**
+ * Adds or refreshes a game in the search index. MySQL maintains its FULLTEXT index itself.
+ */
+const indexGame = async (gameId: number, title: string, description: string): Promise<void> => {
+    const pool = getPool();
+    if (pool.dbType !== 'sqlite') return;
+    await pool.query("DELETE FROM game_search WHERE rowid = ?", [gameId]);
+    await pool.query("INSERT INTO game_search (rowid, title, description) VALUES (?, ?, ?)", [gameId, title, description]);
+};
+
+/**
+ * Removes a game from the search index. MySQL maintains its FULLTEXT index itself.
+ */
+const removeGame = async (gameId: number): Promise<void> => {
+    const pool = getPool();
+    if (pool.dbType !== 'sqlite') return;
+    await pool.query("DELETE FROM game_search WHERE rowid = ?", [gameId]);
+};
+
+/**
+ * Rebuilds the search index from the game table, for after games are written directly with SQL.
+ */
+const rebuildIndex = async (): Promise<void> => {
+    const pool = getPool();
+    if (pool.dbType !== 'sqlite') return;
+    try {
+        await pool.query("DELETE FROM game_search", []);
+        await pool.query("INSERT INTO game_search (rowid, title, description) SELECT id, title, description FROM game", []);
+    } catch (err: any) {
+        Logger.error(err.sql);
+        throw err;
+    }
+};
+
+export { SearchClause, buildSearchClause, buildSnippet, indexGame, removeGame, rebuildIndex }
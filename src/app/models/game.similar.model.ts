@@ -0,0 +1,249 @@
+import { getPool } from "../../config/db";
+import Logger from "../../config/logger";
+import { NotFoundError } from "../services/errors";
+import { toDbDate, fromDbDate } from "../services/dates";
+
+// How many similar games are kept for each game.
+const SIMILAR_GAMES_KEPT = 20;
+// Lists older than this are recomputed by the background refresh even if nothing marked them stale, which picks up
+// games added since and genre or platform changes of other games.
+const SIMILAR_GAMES_MAX_AGE_HOURS = 24;
+const SIMILAR_GAMES_REFRESH_MINUTES = parseInt(process.env.SIMILAR_GAMES_REFRESH_MINUTES, 10) || 10;
+
+// Weights of the three signals, each of which is a 0-1 overlap, so scores are between 0 and 1.
+const PLAYER_WEIGHT = 0.6;
+const GENRE_WEIGHT = 0.25;
+const PLATFORM_WEIGHT = 0.15;
+
+// Every (user, game) pair where the user owns or wishlists the game. A user never does both for one game.
+const PLAYERS = "(SELECT user_id, game_id FROM owned UNION SELECT user_id, game_id FROM wishlist)";
+
+interface SimilarGame {
+    gameId: number;
+    title: string;
+    genreId: number;
+    creatorId: number;
+    score: number;
+    sharedPlayers: number;
+    sameGenre: boolean;
+    sharedGenres: number;
+    sharedPlatforms: number;
+}
+
+/**
+ * Helper: Size of the overlap of two sets relative to their union, or 0 if both are empty.
+ */
+const jaccard = (shared: number, sizeA: number, sizeB: number): number => {
+    const union = sizeA + sizeB - shared;
+    return union > 0 ? shared / union : 0;
+};
+
+// Refreshes in progress, so two requests for the same stale game don't both rewrite its list.
+const refreshing = new Map<number, Promise<void>>();
+
+/**
+ * Helper: Scores every other game against a game and stores the best ones as its similar games.
+ */
+const computeSimilarGames = async (gameId: number): Promise<void> => {
+    const pool = getPool();
+    const [gameRows] = await pool.query(
+        `SELECT owner_count + wishlist_count AS players,
+                (SELECT COUNT(*) FROM game_genres gg WHERE gg.game_id = game.id) AS genres,
+                (SELECT COUNT(*) FROM game_platforms gp WHERE gp.game_id = game.id) AS platforms
+         FROM game WHERE id = ?`,
+        [gameId]
+    );
+    if ((gameRows as any[]).length === 0) return;
+    const game = (gameRows as any[])[0];
+    const candidateQuery = `
+        SELECT g.id AS gameId,
+               COALESCE(co.shared, 0) AS sharedPlayers,
+               g.owner_count + g.wishlist_count AS players,
+               COALESCE(sg.shared, 0) AS sharedGenres,
+               COALESCE(gg.genres, 0) AS genres,
+               COALESCE(sp.shared, 0) AS sharedPlatforms,
+               COALESCE(gp.platforms, 0) AS platforms
+        FROM game g
+        LEFT JOIN (
+            SELECT b.game_id, COUNT(*) AS shared
+            FROM ${PLAYERS} a
+            JOIN ${PLAYERS} b ON b.user_id = a.user_id AND b.game_id <> a.game_id
+            WHERE a.game_id = ?
+            GROUP BY b.game_id
+        ) co ON co.game_id = g.id
+        LEFT JOIN (
+            SELECT b.game_id, COUNT(*) AS shared
+            FROM game_genres a
+            JOIN game_genres b ON b.genre_id = a.genre_id
+            WHERE a.game_id = ?
+            GROUP BY b.game_id
+        ) sg ON sg.game_id = g.id
+        LEFT JOIN (SELECT game_id, COUNT(*) AS genres FROM game_genres GROUP BY game_id) gg ON gg.game_id = g.id
+        LEFT JOIN (
+            SELECT b.game_id, COUNT(*) AS shared
+            FROM game_platforms a
+            JOIN game_platforms b ON b.platform_id = a.platform_id
+            WHERE a.game_id = ?
+            GROUP BY b.game_id
+        ) sp ON sp.game_id = g.id
+        LEFT JOIN (SELECT game_id, COUNT(*) AS platforms FROM game_platforms GROUP BY game_id) gp ON gp.game_id = g.id
+        WHERE g.id <> ?
+    `;
+    const [rows] = await pool.query(candidateQuery, [gameId, gameId, gameId, gameId]);
+    const scored = (rows as any[]).map((row) => {
+        const sharedPlayers = Number(row.sharedPlayers);
+        const sharedGenres = Number(row.sharedGenres);
+        const sharedPlatforms = Number(row.sharedPlatforms);
+        const score = PLAYER_WEIGHT * jaccard(sharedPlayers, Number(game.players), Number(row.players))
+            + GENRE_WEIGHT * jaccard(sharedGenres, Number(game.genres), Number(row.genres))
+            + PLATFORM_WEIGHT * jaccard(sharedPlatforms, Number(game.platforms), Number(row.platforms));
+        return { gameId: row.gameId, score, sharedPlayers, sharedGenres, sharedPlatforms };
+    });
+    const best = scored
+        .filter((candidate) => candidate.score > 0)
+        .sort((a, b) => b.score - a.score || b.sharedPlayers - a.sharedPlayers || a.gameId - b.gameId)
+        .slice(0, SIMILAR_GAMES_KEPT);
+
+    await pool.query("DELETE FROM game_similarity WHERE game_id = ?", [gameId]);
+    for (const candidate of best) {
+        await pool.query(
+            `INSERT INTO game_similarity
+                 (game_id, similar_game_id, score, shared_players, same_genre, shared_genres, shared_platforms)
+             VALUES (?, ?, ?, ?, ?, ?, ?)`,
+            [
+                gameId, candidate.gameId, candidate.score, candidate.sharedPlayers, candidate.sharedGenres > 0 ? 1 : 0,
+                candidate.sharedGenres, candidate.sharedPlatforms
+            ]
+        );
+    }
+    await pool.query("UPDATE game SET similar_refreshed_at = ? WHERE id = ?", [toDbDate(new Date()), gameId]);
+};
+
+/**
+ * Recomputes a game's similar games, or waits for the recompute already in progress.
+ */
+const refreshSimilarGames = async (gameId: number): Promise<void> => {
+    let pending = refreshing.get(gameId);
+    if (!pending) {
+        pending = computeSimilarGames(gameId).finally(() => refreshing.delete(gameId));
+        refreshing.set(gameId, pending);
+    }
+    await pending;
+};
+
+/**
+ * Lists the games most similar to a game, best first. A list that is missing or stale is recomputed first.
+ */
+const getSimilarGames = async (gameId: number, count: number): Promise<{ games: SimilarGame[]; refreshedAt: string }> => {
+    const pool = getPool();
+    const [gameRows] = await pool.query("SELECT similar_refreshed_at FROM game WHERE id = ?", [gameId]);
+    if ((gameRows as any[]).length === 0) {
+        throw new NotFoundError("No game found with id", "GAME_NOT_FOUND");
+    }
+    let refreshedAt = (gameRows as any[])[0].similar_refreshed_at;
+    if (refreshedAt === null) {
+        await refreshSimilarGames(gameId);
+        const [refreshedRows] = await pool.query("SELECT similar_refreshed_at FROM game WHERE id = ?", [gameId]);
+        refreshedAt = (refreshedRows as any[])[0].similar_refreshed_at;
+    }
+    const query = `
+        SELECT s.similar_game_id AS gameId, g.title, g.genre_id AS genreId, g.creator_id AS creatorId, s.score,
+               s.shared_players AS sharedPlayers, s.same_genre AS sameGenre, s.shared_genres AS sharedGenres,
+               s.shared_platforms AS sharedPlatforms
+        FROM game_similarity s
+        JOIN game g ON g.id = s.similar_game_id
+        WHERE s.game_id = ?
+        ORDER BY s.score DESC, s.shared_players DESC, s.similar_game_id ASC
+        LIMIT ?
+    `;
+    const [rows] = await pool.query(query, [gameId, count]);
+    return {
+        games: (rows as any[]).map((row) => ({
+            gameId: row.gameId,
+            title: row.title,
+            genreId: row.genreId,
+            creatorId: row.creatorId,
+            score: Math.round(Number(row.score) * 10000) / 10000,
+            sharedPlayers: row.sharedPlayers,
+            sameGenre: Boolean(row.sameGenre),
+            sharedGenres: row.sharedGenres,
+            sharedPlatforms: row.sharedPlatforms
+        })),
+        refreshedAt: fromDbDate(refreshedAt)
+    };
+};
+
+/**
+ * Marks the lists that a user owning or wishlisting a game (or no longer doing so) affects as stale: the game's own
+ * list and those of every other game the user owns or wishlists.
+ */
+const markStaleForPlayer = async (userId: number, gameId: number): Promise<void> => {
+    await getPool().query(
+        `UPDATE game SET similar_refreshed_at = NULL
+         WHERE id = ? OR id IN (SELECT game_id FROM owned WHERE user_id = ?) OR id IN (SELECT game_id FROM wishlist WHERE user_id = ?)`,
+        [gameId, userId, userId]
+    );
+};
+
+/**
+ * Marks a game's own list as stale, after its genres or platforms changed. Other games' lists catch up with the
+ * change when they next reach SIMILAR_GAMES_MAX_AGE_HOURS.
+ */
+const markStale = async (gameId: number): Promise<void> => {
+    await getPool().query("UPDATE game SET similar_refreshed_at = NULL WHERE id = ?", [gameId]);
+};
+
+/**
+ * Removes a game that is being deleted from every similar games list, marking the lists it was on as stale.
+ */
+const removeGameFromSimilarGames = async (gameId: number): Promise<void> => {
+    const pool = getPool();
+    await pool.query(
+        "UPDATE game SET similar_refreshed_at = NULL WHERE id IN (SELECT game_id FROM game_similarity WHERE similar_game_id = ?)",
+        [gameId]
+    );
+    await pool.query("DELETE FROM game_similarity WHERE game_id = ? OR similar_game_id = ?", [gameId, gameId]);
+};
+
+/**
+ * Recomputes every list that is stale or older than SIMILAR_GAMES_MAX_AGE_HOURS. Returns how many were recomputed.
+ */
+const refreshStaleSimilarGames = async (): Promise<number> => {
+    const cutoff = toDbDate(new Date(Date.now() - SIMILAR_GAMES_MAX_AGE_HOURS * 60 * 60 * 1000));
+    const [rows] = await getPool().query(
+        "SELECT id FROM game WHERE similar_refreshed_at IS NULL OR similar_refreshed_at < ? ORDER BY id",
+        [cutoff]
+    );
+    for (const row of rows as any[]) {
+        await refreshSimilarGames(row.id);
+    }
+    return (rows as any[]).length;
+};
+
+/**
+ * Starts recomputing stale lists in the background every SIMILAR_GAMES_REFRESH_MINUTES, so requests rarely have to.
+ */
+const scheduleSimilarGamesRefresh = (): void => {
+    let running = false;
+    const timer = setInterval(async () => {
+        if (running) return;
+        running = true;
+        try {
+            const refreshed = await refreshStaleSimilarGames();
+            if (refreshed > 0) {
+                Logger.info(`Refreshed similar games of ${refreshed} game(s)`);
+            }
+        } catch (err) {
+            Logger.error("Unable to refresh similar games");
+            Logger.error(err);
+        } finally {
+            running = false;
+        }
+    }, SIMILAR_GAMES_REFRESH_MINUTES * 60 * 1000);
+    timer.unref();
+};
+
+export {
+    SimilarGame, getSimilarGames, refreshSimilarGames, markStaleForPlayer, markStale, removeGameFromSimilarGames,
+    refreshStaleSimilarGames, scheduleSimilarGamesRefresh
+}
@@ -0,0 +1,137 @@
+import { getPool } from "../../config/db";
+import { ConflictError, ForbiddenError, NotFoundError, ValidationError } from "../services/errors";
+import { toDbDate } from "../services/dates";
+
+interface Tag {
+    tagId: number;
+    name: string;
+    gameCount: number;
+}
+
+interface TagSuggestion {
+    tagId: number;
+    name: string;
+    suggestionCount: number;
+}
+
+/**
+ * Helper: Tag names are compared and stored trimmed, lower case and with single spaces.
+ */
+const normaliseTagName = (name: string): string => {
+    return name.trim().replace(/\s+/g, " ").toLowerCase();
+};
+
+/**
+ * Lists every tag with how many games it is attached to, most used first.
+ */
+const getTags = async (): Promise<Tag[]> => {
+    const query = `
+        SELECT tag.id AS tagId, tag.name, COUNT(gt.game_id) AS gameCount
+        FROM tag
+        LEFT JOIN game_tag gt ON gt.tag_id = tag.id
+        GROUP BY tag.id, tag.name
+        ORDER BY gameCount DESC, tag.name ASC
+    `;
+    const [rows] = await getPool().query(query);
+    return (rows as any[]).map((row) => ({ tagId: row.tagId, name: row.name, gameCount: Number(row.gameCount) }));
+};
+
+/**
+ * Adds a tag to the vocabulary. Names are unique regardless of case and spacing.
+ */
+const createTag = async (name: string): Promise<number> => {
+    const pool = getPool();
+    const tagName = normaliseTagName(name);
+    const [rows] = await pool.query("SELECT id FROM tag WHERE name = ?", [tagName]);
+    if ((rows as any[]).length > 0) {
+        throw new ConflictError("Tag name already exists", "TAG_NAME_TAKEN");
+    }
+    const [result] = await pool.query("INSERT INTO tag (name) VALUES (?)", [tagName]);
+    return (result as any).insertId;
+};
+
+/**
+ * Replaces the tags attached to a game. Suggestions of the tags now attached are dropped.
+ */
+const setGameTags = async (gameId: number, tagIds: number[]): Promise<void> => {
+    const pool = getPool();
+    await pool.query("DELETE FROM game_tag WHERE game_id = ?", [gameId]);
+    for (const tagId of tagIds) {
+        await pool.query("INSERT INTO game_tag (game_id, tag_id) VALUES (?, ?)", [gameId, tagId]);
+        await pool.query("DELETE FROM tag_suggestion WHERE game_id = ? AND tag_id = ?", [gameId, tagId]);
+    }
+};
+
+/**
+ * Lists the tags owners have suggested for a game, most suggested first.
+ */
+const getTagSuggestions = async (gameId: number): Promise<TagSuggestion[]> => {
+    const pool = getPool();
+    const [gameRows] = await pool.query("SELECT id FROM game WHERE id = ?", [gameId]);
+    if ((gameRows as any[]).length === 0) {
+        throw new NotFoundError("No game found with id", "GAME_NOT_FOUND");
+    }
+    const query = `
+        SELECT tag.id AS tagId, tag.name, COUNT(*) AS suggestionCount
+        FROM tag_suggestion s
+        JOIN tag ON tag.id = s.tag_id
+        WHERE s.game_id = ?
+        GROUP BY tag.id, tag.name
+        ORDER BY suggestionCount DESC, tag.name ASC
+    `;
+    const [rows] = await pool.query(query, [gameId]);
+    return (rows as any[]).map((row) => ({
+        tagId: row.tagId,
+        name: row.name,
+        suggestionCount: Number(row.suggestionCount)
+    }));
+};
+
+/**
+ * Suggests a tag for a game the user owns, for its creator to consider. Suggesting the same tag again silently
+ * succeeds.
+ */
+const suggestTag = async (userId: number, gameId: number, tagId: number): Promise<void> => {
+    const pool = getPool();
+    const [gameRows] = await pool.query("SELECT creator_id FROM game WHERE id = ?", [gameId]);
+    if ((gameRows as any[]).length === 0) {
+        throw new NotFoundError("No game found with id", "GAME_NOT_FOUND");
+    }
+    if ((gameRows as any[])[0].creator_id === userId) {
+        throw new ForbiddenError("Creators attach tags to their own games directly", "OWN_GAME");
+    }
+    const [ownedRows] = await pool.query("SELECT 1 FROM owned WHERE user_id = ? AND game_id = ?", [userId, gameId]);
+    if ((ownedRows as any[]).length === 0) {
+        throw new ForbiddenError("Only owners of a game can suggest tags for it", "NOT_OWNED");
+    }
+    const [tagRows] = await pool.query("SELECT id FROM tag WHERE id = ?", [tagId]);
+    if ((tagRows as any[]).length === 0) {
+        throw new ValidationError("Tag does not exist", "INVALID_TAG");
+    }
+    const [attachedRows] = await pool.query("SELECT 1 FROM game_tag WHERE game_id = ? AND tag_id = ?", [gameId, tagId]);
+    if ((attachedRows as any[]).length > 0) {
+        throw new ConflictError("The game already has this tag", "ALREADY_TAGGED");
+    }
+    const [suggestionRows] = await pool.query(
+        "SELECT 1 FROM tag_suggestion WHERE game_id = ? AND tag_id = ? AND user_id = ?",
+        [gameId, tagId, userId]
+    );
+    if ((suggestionRows as any[]).length > 0) {
+        return;
+    }
+    await pool.query(
+        "INSERT INTO tag_suggestion (game_id, tag_id, user_id, created_at) VALUES (?, ?, ?, ?)",
+        [gameId, tagId, userId, toDbDate(new Date())]
+    );
+};
+
+/**
+ * Removes a game that is being deleted from its tags and drops the suggestions made for it.
+ */
+const removeGameTags = async (gameId: number): Promise<void> => {
+    const pool = getPool();
+    await pool.query("DELETE FROM tag_suggestion WHERE game_id = ?", [gameId]);
+    await pool.query("DELETE FROM game_tag WHERE game_id = ?", [gameId]);
+};
+
+export { Tag, TagSuggestion, getTags, createTag, setGameTags, getTagSuggestions, suggestTag, removeGameTags }
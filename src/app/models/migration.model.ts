@@ -0,0 +1,159 @@
+import path from "path";
+import fs from "mz/fs";
+import { getPool } from "../../config/db";
+import Logger from "../../config/logger";
+import { toDbDate } from "../services/dates";
+
+// Each dialect has its own directory of numbered migrations, e.g. 002_game_review_edited.up.sql and
+// 002_game_review_edited.down.sql. Versions are applied in ascending order and recorded in schema_migrations.
+const migrationDirectory = './src/app/resources/migrations/';
+const migrationFilePattern = /^(\d+)_(\w+)\.(up|down)\.sql$/;
+
+interface Migration {
+    version: number;
+    name: string;
+    up: string;     // path to the up script
+    down: string;   // path to the down script
+}
+
+interface MigrationStatus {
+    version: number;
+    name: string;
+    applied: boolean;
+    appliedAt: string | null;
+}
+
+/**
+ * Reads the available migrations for the current database type, in version order.
+ */
+const getMigrations = async (): Promise<Migration[]> => {
+    const directory = path.join(migrationDirectory, getPool().dbType);
+    const files: string[] = await fs.readdir(directory);
+    const migrations = new Map<number, Migration>();
+    for (const file of files) {
+        const match = migrationFilePattern.exec(file);
+        if (!match) continue;
+        const version = parseInt(match[1], 10);
+        const migration = migrations.get(version) || { version, name: match[2], up: null, down: null };
+        migration[match[3] as "up" | "down"] = path.join(directory, file);
+        migrations.set(version, migration);
+    }
+    for (const migration of migrations.values()) {
+        if (!migration.up || !migration.down) {
+            throw new Error(`Migration ${migration.version}_${migration.name} needs both an up and a down script`);
+        }
+    }
+    return [...migrations.values()].sort((a, b) => a.version - b.version);
+};
+
+const tableExists = async (table: string): Promise<boolean> => {
+    const pool = getPool();
+    const sql = pool.dbType === 'sqlite'
+        ? "SELECT name FROM sqlite_master WHERE type = 'table' AND name = ?"
+        : "SELECT table_name FROM information_schema.tables WHERE table_schema = DATABASE() AND table_name = ?";
+    const [rows] = await pool.query(sql, [table]);
+    return rows.length > 0;
+};
+
+/**
+ * Creates the schema_migrations table if needed. A database created before migrations existed (by the old
+ * create_database.sql) already has the initial schema, so it is recorded as being at version 1.
+ */
+const ensureMigrationsTable = async (): Promise<void> => {
+    const pool = getPool();
+    if (await tableExists('schema_migrations')) {
+        return;
+    }
+    const hasInitialSchema = await tableExists('user');
+    await pool.query(`
+        CREATE TABLE schema_migrations (
+            version     INTEGER         NOT NULL PRIMARY KEY,
+            name        VARCHAR(255)    NOT NULL,
+            applied_at  DATETIME        NOT NULL
+        )
+    `, []);
+    if (hasInitialSchema) {
+        Logger.info("Found a database without schema_migrations, recording it as version 1");
+        await pool.query("INSERT INTO schema_migrations (version, name, applied_at) VALUES (?, ?, ?)",
+            [1, 'initial_schema', toDbDate(new Date())]);
+    }
+};
+
+const getAppliedVersions = async (): Promise<Map<number, string>> => {
+    const [rows] = await getPool().query("SELECT version, applied_at AS appliedAt FROM schema_migrations ORDER BY version", []);
+    return new Map((rows as any[]).map(row => [row.version, row.appliedAt]));
+};
+
+/**
+ * Helper: Runs one migration script and records (or forgets) it, inside a transaction where the database allows.
+ * MySQL commits implicitly after each DDL statement, so a failed MySQL migration may need tidying by hand.
+ */
+const runMigration = async (migration: Migration, direction: "up" | "down"): Promise<void> => {
+    const pool = getPool();
+    const sql = await fs.readFile(direction === "up" ? migration.up : migration.down, 'utf8');
+    Logger.info(`Migrating ${direction}: ${String(migration.version).padStart(3, '0')}_${migration.name}`);
+    try {
+        await pool.query('START TRANSACTION');
+        await pool.query(sql);
+        if (direction === "up") {
+            await pool.query("INSERT INTO schema_migrations (version, name, applied_at) VALUES (?, ?, ?)",
+                [migration.version, migration.name, toDbDate(new Date())]);
+        } else {
+            await pool.query("DELETE FROM schema_migrations WHERE version = ?", [migration.version]);
+        }
+        await pool.query('COMMIT');
+    } catch (err) {
+        Logger.error(`Migration ${migration.version}_${migration.name} failed`);
+        await pool.query('ROLLBACK');
+        throw err;
+    }
+};
+
+/**
+ * Applies every pending migration, oldest first. Returns the number applied.
+ */
+const migrateUp = async (): Promise<number> => {
+    await ensureMigrationsTable();
+    const applied = await getAppliedVersions();
+    const pending = (await getMigrations()).filter(migration => !applied.has(migration.version));
+    for (const migration of pending) {
+        await runMigration(migration, "up");
+    }
+    return pending.length;
+};
+
+/**
+ * Reverts the most recently applied migrations, newest first. Returns the number reverted.
+ */
+const migrateDown = async (steps: number = 1): Promise<number> => {
+    await ensureMigrationsTable();
+    const applied = await getAppliedVersions();
+    const toRevert = (await getMigrations())
+        .filter(migration => applied.has(migration.version))
+        .reverse()
+        .slice(0, steps);
+    for (const migration of toRevert) {
+        await runMigration(migration, "down");
+    }
+    return toRevert.length;
+};
+
+const getStatus = async (): Promise<MigrationStatus[]> => {
+    await ensureMigrationsTable();
+    const applied = await getAppliedVersions();
+    return (await getMigrations()).map(migration => ({
+        version: migration.version,
+        name: migration.name,
+        applied: applied.has(migration.version),
+        appliedAt: applied.get(migration.version) || null
+    }));
+};
+
+/**
+ * Whether the database has any tables yet, i.e. whether it was just created.
+ */
+const isEmpty = async (): Promise<boolean> => {
+    return !(await tableExists('schema_migrations')) && !(await tableExists('user'));
+};
+
+export { MigrationStatus, migrateUp, migrateDown, getStatus, isEmpty }
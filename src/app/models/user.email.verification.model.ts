@@ -0,0 +1,56 @@
+import { getPool } from "../../config/db";
+import Logger from "../../config/logger";
+import { hashToken } from "../services/tokens";
+import { toDbDate } from "../services/dates";
+
+// How long an email verification token stays valid after it is sent.
+const EMAIL_VERIFICATION_TTL_HOURS = parseInt(process.env.EMAIL_VERIFICATION_TTL_HOURS, 10) || 48;
+
+/**
+ * Stores a verification token for the given address, replacing any token sent to the user before.
+ */
+const createVerificationToken = async (userId: number, email: string, token: string): Promise<void> => {
+    try {
+        const pool = getPool();
+        const now = new Date();
+        const expires = new Date(now.getTime() + EMAIL_VERIFICATION_TTL_HOURS * 60 * 60 * 1000);
+        await pool.query("DELETE FROM email_verification WHERE user_id = ?", [userId]);
+        const sql = `
+            INSERT INTO email_verification (user_id, email, token_hash, created_at, expires_at)
+            VALUES (?, ?, ?, ?, ?)
+        `;
+        await pool.query(sql, [userId, email, hashToken(token), toDbDate(now), toDbDate(expires)]);
+    } catch (err: any) {
+        Logger.error(err.sql);
+        throw err;
+    }
+}
+
+/**
+ * Marks the user a token was sent to as verified and returns their id, or null if the token is unknown, expired,
+ * or was sent to an address the user no longer has. Tokens are deleted once used.
+ */
+const verifyEmail = async (token: string): Promise<number | null> => {
+    try {
+        const pool = getPool();
+        const sql = `
+            SELECT v.user_id AS userId
+            FROM email_verification v
+            JOIN user u ON u.id = v.user_id AND u.email = v.email
+            WHERE v.token_hash = ? AND v.expires_at > ?
+        `;
+        const [rows] = await pool.query(sql, [hashToken(token), toDbDate(new Date())]);
+        if (!rows || rows.length === 0) {
+            return null;
+        }
+        const userId = rows[0].userId;
+        await pool.query("UPDATE user SET email_verified = 1 WHERE id = ?", [userId]);
+        await pool.query("DELETE FROM email_verification WHERE user_id = ?", [userId]);
+        return userId;
+    } catch (err: any) {
+        Logger.error(err.sql);
+        throw err;
+    }
+}
+
+export { createVerificationToken, verifyEmail }
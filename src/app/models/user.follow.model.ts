@@ -0,0 +1,194 @@
+import { getPool } from "../../config/db";
+import { ForbiddenError, NotFoundError, ValidationError } from "../services/errors";
+import { toDbDate, fromDbDate } from "../services/dates";
+
+// The kinds of activity that make up a feed, in the order they are listed when two happen at the same moment.
+const FEED_ITEM_TYPES = ["REVIEW", "GAME"];
+
+interface FollowUser {
+    userId: number;
+    firstName: string;
+    lastName: string;
+    followedAt: string;
+}
+
+interface FeedItem {
+    type: string;
+    timestamp: string;
+    userId: number;
+    userFirstName: string;
+    userLastName: string;
+    gameId: number;
+    gameTitle: string;
+    reviewId: number | null;
+    rating: number | null;
+    review: string | null;
+}
+
+interface GetFeedParams {
+    count: number;
+    cursor?: string;
+}
+
+/**
+ * Helper: Encodes the position of the last item on a feed page, so the next page can continue after it.
+ */
+const encodeCursor = (value: any, type: string, itemId: number): string => {
+    const isDate = value instanceof Date;
+    const payload = { v: isDate ? value.toISOString() : value, d: isDate, k: type, id: itemId };
+    return Buffer.from(JSON.stringify(payload)).toString("base64url");
+};
+
+/**
+ * Helper: Reverses encodeCursor, rejecting malformed cursors.
+ */
+const decodeCursor = (cursor: string): { value: any; type: string; id: number } => {
+    let payload: any;
+    try {
+        payload = JSON.parse(Buffer.from(cursor, "base64url").toString("utf8"));
+    } catch {
+        throw new ValidationError("Invalid cursor", "INVALID_CURSOR");
+    }
+    if (!payload || !FEED_ITEM_TYPES.includes(payload.k) || !Number.isInteger(payload.id) || typeof payload.v !== "string") {
+        throw new ValidationError("Invalid cursor", "INVALID_CURSOR");
+    }
+    return { value: payload.d ? new Date(payload.v) : payload.v, type: payload.k, id: payload.id };
+};
+
+/**
+ * Makes a user follow a creator. Following someone already followed silently succeeds.
+ */
+const followUser = async (followerId: number, creatorId: number): Promise<void> => {
+    if (followerId === creatorId) {
+        throw new ForbiddenError("Cannot follow yourself", "CANNOT_FOLLOW_SELF");
+    }
+    const pool = getPool();
+    const [userRows] = await pool.query("SELECT id FROM user WHERE id = ?", [creatorId]);
+    if (!userRows || (userRows as any[]).length === 0) {
+        throw new NotFoundError("User not found", "USER_NOT_FOUND");
+    }
+    const [followRows] = await pool.query(
+        "SELECT 1 FROM follow WHERE follower_id = ? AND creator_id = ?",
+        [followerId, creatorId]
+    );
+    if ((followRows as any[]).length > 0) {
+        return;
+    }
+    await pool.query(
+        "INSERT INTO follow (follower_id, creator_id, created_at) VALUES (?, ?, ?)",
+        [followerId, creatorId, toDbDate(new Date())]
+    );
+};
+
+/**
+ * Makes a user stop following a creator.
+ */
+const unfollowUser = async (followerId: number, creatorId: number): Promise<void> => {
+    const [result] = await getPool().query(
+        "DELETE FROM follow WHERE follower_id = ? AND creator_id = ?",
+        [followerId, creatorId]
+    );
+    if ((result as any).affectedRows === 0) {
+        throw new ForbiddenError("User is not followed", "NOT_FOLLOWING");
+    }
+};
+
+/**
+ * Helper: Lists the users on one side of a user's follows, most recently followed first.
+ */
+const getFollowList = async (userId: number, side: "followers" | "following"): Promise<FollowUser[]> => {
+    const [matchColumn, listColumn] = side === "followers" ? ["creator_id", "follower_id"] : ["follower_id", "creator_id"];
+    const query = `
+        SELECT u.id AS userId, u.first_name AS firstName, u.last_name AS lastName, f.created_at AS followedAt
+        FROM follow f
+        JOIN user u ON u.id = f.${listColumn}
+        WHERE f.${matchColumn} = ?
+        ORDER BY f.created_at DESC, u.id ASC
+    `;
+    const [rows] = await getPool().query(query, [userId]);
+    return (rows as any[]).map((row) => ({
+        userId: row.userId,
+        firstName: row.firstName,
+        lastName: row.lastName,
+        followedAt: fromDbDate(row.followedAt)
+    }));
+};
+
+/**
+ * Lists the users following a user.
+ */
+const getFollowers = async (userId: number): Promise<FollowUser[]> => {
+    return getFollowList(userId, "followers");
+};
+
+/**
+ * Lists the creators a user follows.
+ */
+const getFollowing = async (userId: number): Promise<FollowUser[]> => {
+    return getFollowList(userId, "following");
+};
+
+/**
+ * Lists the games published and the reviews written by the creators a user follows, newest first. Pages are
+ * chained with cursors: nextCursor is null on the last page.
+ */
+const getFeed = async (userId: number, params: GetFeedParams): Promise<{ items: FeedItem[]; nextCursor: string | null }> => {
+    const feedQuery = `
+        SELECT 'GAME' AS type, g.id AS itemId, g.creation_date AS occurredAt, g.creator_id AS userId,
+               g.id AS gameId, g.title AS gameTitle, NULL AS rating, NULL AS review
+        FROM game g
+        JOIN follow f ON f.creator_id = g.creator_id
+        WHERE f.follower_id = ?
+        UNION ALL
+        SELECT 'REVIEW' AS type, r.id AS itemId, r.timestamp AS occurredAt, r.user_id AS userId,
+               g.id AS gameId, g.title AS gameTitle, r.rating, r.review
+        FROM game_review r
+        JOIN game g ON g.id = r.game_id
+        JOIN follow f ON f.creator_id = r.user_id
+        WHERE f.follower_id = ?
+    `;
+    const queryParams: any[] = [userId, userId];
+    let pageClause = "";
+    if (params.cursor) {
+        const cursor = decodeCursor(params.cursor);
+        pageClause = `WHERE (feed.occurredAt < ? OR (feed.occurredAt = ? AND
+            (feed.type < ? OR (feed.type = ? AND feed.itemId < ?))))`;
+        queryParams.push(cursor.value, cursor.value, cursor.type, cursor.type, cursor.id);
+    }
+    // One extra row tells whether there is another page.
+    const query = `
+        SELECT feed.*, u.first_name AS userFirstName, u.last_name AS userLastName
+        FROM (${feedQuery}) feed
+        JOIN user u ON u.id = feed.userId
+        ${pageClause}
+        ORDER BY feed.occurredAt DESC, feed.type DESC, feed.itemId DESC
+        LIMIT ?
+    `;
+    queryParams.push(params.count + 1);
+    const [rows] = await getPool().query(query, queryParams);
+    const pageRows = (rows as any[]).slice(0, params.count);
+    let nextCursor: string | null = null;
+    if ((rows as any[]).length > params.count && pageRows.length > 0) {
+        const last = pageRows[pageRows.length - 1];
+        nextCursor = encodeCursor(last.occurredAt, last.type, last.itemId);
+    }
+    return {
+        items: pageRows.map((row) => ({
+            type: row.type,
+            timestamp: fromDbDate(row.occurredAt),
+            userId: row.userId,
+            userFirstName: row.userFirstName,
+            userLastName: row.userLastName,
+            gameId: row.gameId,
+            gameTitle: row.gameTitle,
+            reviewId: row.type === "REVIEW" ? row.itemId : null,
+            rating: row.rating,
+            review: row.review
+        })),
+        nextCursor
+    };
+};
+
+export {
+    FollowUser, FeedItem, GetFeedParams, followUser, unfollowUser, getFollowers, getFollowing, getFeed
+}
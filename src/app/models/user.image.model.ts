@@ -2,16 +2,18 @@ import path from "path";
 import fs from "fs/promises";
 import Logger from "../../config/logger";
 import { getPool } from "../../config/db";
+import * as Images from "../services/images";
+import { ForbiddenError, NotFoundError } from "../services/errors";
 
 const IMAGE_DIR = path.join(__dirname, "..", "..", "..", "storage", "images");
 
-async function getUserImage(id: number): Promise<{ data: Buffer; contentType: string } | null> {
+async function getUserImage(id: number, size: string = "full"): Promise<{ data: Buffer; contentType: string } | null> {
     try {
         const pool = getPool();
         const query = "SELECT image_filename FROM user WHERE id = ?";
         const [rows] = await pool.query(query, [id]);
         if (!rows || rows.length === 0) {
-            throw new Error("User not found");
+            throw new NotFoundError("User not found", "USER_NOT_FOUND");
         }
         const imageFileName = rows[0].image_filename;
         if (!imageFileName) return null;
@@ -21,17 +23,8 @@ async function getUserImage(id: number): Promise<{ data: Buffer; contentType: st
         } catch {
             return null;
         }
-        const data = await fs.readFile(fullPath);
-        const ext = path.extname(imageFileName).toLowerCase();
-        let contentType = "";
-        if (ext === ".png") {
-            contentType = "image/png";
-        } else if (ext === ".jpeg" || ext === ".jpg") {
-            contentType = "image/jpeg";
-        } else if (ext === ".gif") {
-            contentType = "image/gif";
-        }
-        return { data, contentType };
+        const data = await fs.readFile(await Images.getImageVariantPath(IMAGE_DIR, imageFileName, size));
+        return { data, contentType: Images.getContentType(imageFileName) };
     } catch (err) {
         Logger.error(err);
         throw err;
@@ -46,23 +39,10 @@ async function setUserImage(
 ): Promise<boolean> {
     // Ensure the authenticated user is allowed to change this image.
     if (userId !== id) {
-        throw new Error("Unauthorized");
+        throw new ForbiddenError("You cannot change another user's image", "NOT_OWN_ACCOUNT");
     }
 
-    let extension: string;
-    switch (contentType) {
-        case "image/png":
-            extension = "png";
-            break;
-        case "image/jpeg":
-            extension = "jpeg";
-            break;
-        case "image/gif":
-            extension = "gif";
-            break;
-        default:
-            throw new Error("Unsupported image type");
-    }
+    const extension = Images.getExtension(contentType);
 
     const newImageFilename = `user_${id}.${extension}`;
     const newImagePath = path.join(IMAGE_DIR, newImageFilename);
@@ -74,22 +54,18 @@ async function setUserImage(
     const query = "SELECT image_filename FROM user WHERE id = ?";
     const [rows] = await pool.query(query, [id]);
     if (!rows || rows.length === 0) {
-        throw new Error("User not found");
+        throw new NotFoundError("User not found", "USER_NOT_FOUND");
     }
     const oldImageFilename: string | null = rows[0].image_filename;
 
-    // Remove old image if present and different.
-    if (oldImageFilename && oldImageFilename !== newImageFilename) {
-        const fullOldPath = path.join(IMAGE_DIR, oldImageFilename);
-        try {
-            await fs.unlink(fullOldPath);
-        } catch (err) {
-            Logger.error(`Failed to delete old image: ${fullOldPath}`, err);
-        }
+    // Remove old image and its variants if present, so stale variants aren't served.
+    if (oldImageFilename) {
+        await Images.deleteImageFiles(IMAGE_DIR, oldImageFilename);
     }
 
-    // Write the new image file.
+    // Write the new image file and its resized variants.
     await fs.writeFile(newImagePath, imageBuffer);
+    await Images.createImageVariants(IMAGE_DIR, newImageFilename);
 
     // Update the user's record with the new image filename.
     const updateQuery = "UPDATE user SET image_filename = ? WHERE id = ?";
@@ -104,16 +80,11 @@ async function deleteUserImage(id: number): Promise<boolean> {
     const query = "SELECT image_filename FROM user WHERE id = ?";
     const [rows] = await pool.query(query, [id]);
     if (!rows || rows.length === 0) {
-        throw new Error("User not found");
+        throw new NotFoundError("User not found", "USER_NOT_FOUND");
     }
     const imageFileName = rows[0].image_filename;
     if (!imageFileName) return false;
-    const fullPath = path.join(IMAGE_DIR, imageFileName);
-    try {
-        await fs.unlink(fullPath);
-    } catch (err) {
-        Logger.error(`Error deleting image file: ${fullPath}`, err);
-    }
+    await Images.deleteImageFiles(IMAGE_DIR, imageFileName);
     const updateQuery = "UPDATE user SET image_filename = NULL WHERE id = ?";
     await pool.query(updateQuery, [id]);
     return true;
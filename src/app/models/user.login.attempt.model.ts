@@ -0,0 +1,88 @@
+import { getPool } from "../../config/db";
+import Logger from "../../config/logger";
+
+interface LoginAttempt {
+    failures: number;
+    lastFailureAt: number;
+    lockedUntil: number | null;
+}
+
+const getAttempt = async (key: string): Promise<LoginAttempt | null> => {
+    try {
+        const sql = `
+            SELECT failures, last_failure_at AS lastFailureAt, locked_until AS lockedUntil
+            FROM login_attempt
+            WHERE attempt_key = ?
+        `;
+        const [rows] = await getPool().query(sql, [key]);
+        if (rows.length === 0) {
+            return null;
+        }
+        const row = rows[0];
+        return {
+            failures: Number(row.failures),
+            lastFailureAt: Number(row.lastFailureAt),
+            lockedUntil: row.lockedUntil === null ? null : Number(row.lockedUntil)
+        };
+    } catch (err: any) {
+        Logger.error(err.sql);
+        throw err;
+    }
+};
+
+// Another login inserted counters for the key first.
+const isDuplicateKey = (err: any): boolean => err.code === "ER_DUP_ENTRY" || err.code === "SQLITE_CONSTRAINT";
+
+/**
+ * Saves the counters for a key only if they are still `expected` (null when the key had none). Returns whether
+ * they were saved, i.e. false if another login changed them since they were read.
+ */
+const replaceAttempt = async (key: string, expected: LoginAttempt | null, attempt: LoginAttempt): Promise<boolean> => {
+    try {
+        const pool = getPool();
+        if (expected === null) {
+            const insertSql = "INSERT INTO login_attempt (attempt_key, failures, last_failure_at, locked_until) VALUES (?, ?, ?, ?)";
+            await pool.query(insertSql, [key, attempt.failures, attempt.lastFailureAt, attempt.lockedUntil]);
+            return true;
+        }
+        // Every count changes failures or last_failure_at, so matching both is enough to know nothing changed.
+        const updateSql = `
+            UPDATE login_attempt SET failures = ?, last_failure_at = ?, locked_until = ?
+            WHERE attempt_key = ? AND failures = ? AND last_failure_at = ?
+        `;
+        const [result] = await pool.query(updateSql, [
+            attempt.failures, attempt.lastFailureAt, attempt.lockedUntil, key, expected.failures, expected.lastFailureAt
+        ]);
+        return result.affectedRows > 0;
+    } catch (err: any) {
+        if (isDuplicateKey(err)) {
+            return false;
+        }
+        Logger.error(err.sql);
+        throw err;
+    }
+};
+
+const deleteAttempt = async (key: string): Promise<void> => {
+    try {
+        await getPool().query("DELETE FROM login_attempt WHERE attempt_key = ?", [key]);
+    } catch (err: any) {
+        Logger.error(err.sql);
+        throw err;
+    }
+};
+
+/**
+ * Deletes counters whose last failure was before `lastFailureBefore` and which are no longer locked out at `now`.
+ */
+const deleteStaleAttempts = async (lastFailureBefore: number, now: number): Promise<void> => {
+    try {
+        const sql = "DELETE FROM login_attempt WHERE last_failure_at < ? AND (locked_until IS NULL OR locked_until < ?)";
+        await getPool().query(sql, [lastFailureBefore, now]);
+    } catch (err: any) {
+        Logger.error(err.sql);
+        throw err;
+    }
+};
+
+export { LoginAttempt, getAttempt, replaceAttempt, deleteAttempt, deleteStaleAttempts }
@@ -1,12 +1,15 @@
 import { getPool } from "../../config/db";
 import Logger from "../../config/logger";
+import * as Session from "./user.session.model";
+import { ConflictError } from "../services/errors";
 
-const getUserById = async (id: number): Promise<{ firstName: string, lastName: string, email: string } | null> => {
+const getUserById = async (id: number): Promise<{ firstName: string, lastName: string, email: string, emailVerified: boolean } | null> => {
     try {
         const sql = `
             SELECT first_name AS firstName,
                    last_name AS lastName,
-                   email
+                   email,
+                   email_verified AS emailVerified
             FROM user
             WHERE id = ?
         `;
@@ -16,7 +19,7 @@ const getUserById = async (id: number): Promise<{ firstName: string, lastName: s
             return null;
         }
 
-        return rows[0] as { firstName: string, lastName: string, email: string };
+        return { ...rows[0], emailVerified: !!rows[0].emailVerified } as { firstName: string, lastName: string, email: string, emailVerified: boolean };
     } catch (err: any) {
         Logger.error(err.sql);
         throw err;
@@ -44,8 +47,8 @@ const getUserByEmail = async (email: string): Promise<{ id: number, firstName: s
 const createUser = async (user: { firstName: string; lastName: string; email: string; password: string }): Promise<number> => {
     try {
         const sql = `
-            INSERT INTO user (first_name, last_name, email, password)
-            VALUES (?, ?, ?, ?)
+            INSERT INTO user (first_name, last_name, email, password, email_verified)
+            VALUES (?, ?, ?, ?, 0)
         `;
         const [result] = await getPool().query(sql, [user.firstName, user.lastName, user.email, user.password]);
         return result.insertId;
@@ -55,22 +58,17 @@ const createUser = async (user: { firstName: string; lastName: string; email: st
     }
 }
 
-const updateUserToken = async (id: number, token: string): Promise<void> => {
-    try {
-        const sql = `
-            UPDATE user
-            SET auth_token = ?
-            WHERE id = ?
-        `;
-        await getPool().query(sql, [token, id]);
-    } catch (err: any) {
-        Logger.error(err.sql);
-        throw err;
-    }
-}
-
-const getUserByToken = async (token: string): Promise<{ id: number } | null> => {
+/**
+ * Resolves an auth token to its user via the user's sessions, rejecting expired tokens.
+ * A token written straight into the legacy `user.auth_token` column (e.g. through the backdoor)
+ * is adopted as a new session on first use and the column is cleared.
+ */
+const getUserByToken = async (token: string): Promise<{ id: number, sessionId: number } | null> => {
     try {
+        const session = await Session.getSessionByToken(token);
+        if (session) {
+            return session;
+        }
         const sql = `
             SELECT id
             FROM user
@@ -80,7 +78,10 @@ const getUserByToken = async (token: string): Promise<{ id: number } | null> =>
         if (rows.length === 0) {
             return null;
         }
-        return rows[0] as { id: number };
+        const userId = rows[0].id;
+        const sessionId = await Session.createSession(userId, token, null);
+        await getPool().query("UPDATE user SET auth_token = NULL WHERE id = ?", [userId]);
+        return { id: userId, sessionId };
     } catch (err: any) {
         Logger.error(err.sql);
         throw err;
@@ -110,6 +111,12 @@ const getUserByIdAuth = async (id: number): Promise<{ id: number, firstName: str
 }
 
 const updateUserDetails = async (id: number, data: { firstName?: string, lastName?: string, email?: string, password?: string }): Promise<void> => {
+    if (data.email) {
+        const [emailRows] = await getPool().query("SELECT id FROM user WHERE email = ? AND id != ?", [data.email, id]);
+        if (emailRows.length > 0) {
+            throw new ConflictError("Email already in use", "EMAIL_TAKEN");
+        }
+    }
     try {
         const updates: string[] = [];
         const params: any[] = [];
@@ -122,7 +129,8 @@ const updateUserDetails = async (id: number, data: { firstName?: string, lastNam
             params.push(data.lastName);
         }
         if (data.email) {
-            updates.push("email = ?");
+            // A new address has to be verified again.
+            updates.push("email = ?", "email_verified = 0");
             params.push(data.email);
         }
         if (data.password) {
@@ -141,4 +149,50 @@ const updateUserDetails = async (id: number, data: { firstName?: string, lastNam
     }
 }
 
-export { getUserById, updateUserDetails, updateUserToken, getUserByToken, getUserByIdAuth, createUser, getUserByEmail }
+const isEmailVerified = async (id: number): Promise<boolean> => {
+    try {
+        const [rows] = await getPool().query("SELECT email_verified FROM user WHERE id = ?", [id]);
+        return rows.length > 0 && !!rows[0].email_verified;
+    } catch (err: any) {
+        Logger.error(err.sql);
+        throw err;
+    }
+}
+
+const getUserRole = async (id: number): Promise<string | null> => {
+    try {
+        const [rows] = await getPool().query("SELECT role FROM user WHERE id = ?", [id]);
+        if (rows.length === 0) {
+            return null;
+        }
+        return rows[0].role;
+    } catch (err: any) {
+        Logger.error(err.sql);
+        throw err;
+    }
+}
+
+/**
+ * Sets the role of the user with the given email, returning false if there is no such user.
+ */
+const setUserRoleByEmail = async (email: string, role: string): Promise<boolean> => {
+    try {
+        const [result] = await getPool().query("UPDATE user SET role = ? WHERE email = ?", [role, email]);
+        return result.affectedRows > 0;
+    } catch (err: any) {
+        Logger.error(err.sql);
+        throw err;
+    }
+}
+
+const getAdminEmails = async (): Promise<string[]> => {
+    try {
+        const [rows] = await getPool().query("SELECT email FROM user WHERE role = ? ORDER BY email", ["admin"]);
+        return rows.map((row: any) => row.email);
+    } catch (err: any) {
+        Logger.error(err.sql);
+        throw err;
+    }
+}
+
+export { getUserById, updateUserDetails, getUserByToken, getUserByIdAuth, createUser, getUserByEmail, isEmailVerified, getUserRole, setUserRoleByEmail, getAdminEmails }
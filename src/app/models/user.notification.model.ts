@@ -0,0 +1,237 @@
+import { getPool } from "../../config/db";
+import { formatPrice } from "../services/currency";
+import { NotFoundError } from "../services/errors";
+import { toDbDate, fromDbDate } from "../services/dates";
+
+// Every kind of notification. Users receive all of them unless they switch a type off.
+const NOTIFICATION_TYPES = ["PRICE_DROP", "NEW_REVIEW", "NEW_GAME"];
+
+interface Notification {
+    notificationId: number;
+    type: string;
+    gameId: number | null;
+    actorId: number | null;
+    message: string;
+    createdAt: string;
+    read: boolean;
+}
+
+interface PriceDrop {
+    currency: string;
+    oldPrice: number;
+    newPrice: number;
+}
+
+interface GetNotificationsParams {
+    startIndex: number;
+    count: number;
+    unreadOnly: boolean;
+}
+
+/**
+ * Helper: Sends a notification of the given type to each user who hasn't switched that type off.
+ */
+const notifyUsers = async (
+    userIds: number[],
+    type: string,
+    notification: { gameId: number | null, actorId: number | null, message: string }
+): Promise<void> => {
+    const recipients = Array.from(new Set(userIds));
+    if (recipients.length === 0) return;
+    const pool = getPool();
+    const placeholders = recipients.map(() => "?").join(",");
+    const [optedOutRows] = await pool.query(
+        `SELECT user_id FROM notification_preference WHERE type = ? AND enabled = 0 AND user_id IN (${placeholders})`,
+        [type, ...recipients]
+    );
+    const optedOut = new Set((optedOutRows as any[]).map((row) => row.user_id));
+    const createdAt = toDbDate(new Date());
+    for (const userId of recipients) {
+        if (optedOut.has(userId)) continue;
+        await pool.query(
+            "INSERT INTO notification (user_id, type, game_id, actor_id, message, created_at) VALUES (?, ?, ?, ?, ?, ?)",
+            [userId, type, notification.gameId, notification.actorId, notification.message, createdAt]
+        );
+    }
+};
+
+/**
+ * Tells everyone who has wishlisted a game that its current price went down, in one or more currencies.
+ */
+const notifyPriceDrop = async (gameId: number, drops: PriceDrop[]): Promise<void> => {
+    const pool = getPool();
+    const [gameRows] = await pool.query("SELECT title, creator_id FROM game WHERE id = ?", [gameId]);
+    const game = (gameRows as any[])[0];
+    const [rows] = await pool.query("SELECT user_id FROM wishlist WHERE game_id = ?", [gameId]);
+    const changes = drops.map((drop) =>
+        `from ${formatPrice(drop.oldPrice, drop.currency)} to ${formatPrice(drop.newPrice, drop.currency)}`
+    );
+    await notifyUsers((rows as any[]).map((row) => row.user_id), "PRICE_DROP", {
+        gameId,
+        actorId: game.creator_id,
+        message: `${game.title} on your wishlist dropped in price ${changes.join(" and ")}`
+    });
+};
+
+/**
+ * Tells the creator of a game that someone reviewed it.
+ */
+const notifyNewReview = async (gameId: number, reviewerId: number, rating: number): Promise<void> => {
+    const query = `
+        SELECT game.title, game.creator_id, u.first_name, u.last_name
+        FROM game
+        JOIN user u ON u.id = ?
+        WHERE game.id = ?
+    `;
+    const [rows] = await getPool().query(query, [reviewerId, gameId]);
+    const row = (rows as any[])[0];
+    await notifyUsers([row.creator_id], "NEW_REVIEW", {
+        gameId,
+        actorId: reviewerId,
+        message: `${row.first_name} ${row.last_name} reviewed ${row.title}, rating it ${rating}/10`
+    });
+};
+
+/**
+ * Tells everyone who follows a creator or has interacted with their games (owned, wishlisted or reviewed one of
+ * them) that the creator published a new game.
+ */
+const notifyNewGame = async (gameId: number): Promise<void> => {
+    const pool = getPool();
+    const gameQuery = `
+        SELECT game.title, game.creator_id, u.first_name, u.last_name
+        FROM game
+        JOIN user u ON u.id = game.creator_id
+        WHERE game.id = ?
+    `;
+    const [gameRows] = await pool.query(gameQuery, [gameId]);
+    const game = (gameRows as any[])[0];
+    const query = `
+        SELECT o.user_id FROM owned o JOIN game g ON g.id = o.game_id WHERE g.creator_id = ?
+        UNION
+        SELECT w.user_id FROM wishlist w JOIN game g ON g.id = w.game_id WHERE g.creator_id = ?
+        UNION
+        SELECT r.user_id FROM game_review r JOIN game g ON g.id = r.game_id WHERE g.creator_id = ?
+        UNION
+        SELECT f.follower_id AS user_id FROM follow f WHERE f.creator_id = ?
+    `;
+    const [rows] = await pool.query(query, [game.creator_id, game.creator_id, game.creator_id, game.creator_id]);
+    const userIds = (rows as any[]).map((row) => row.user_id).filter((userId) => userId !== game.creator_id);
+    await notifyUsers(userIds, "NEW_GAME", {
+        gameId,
+        actorId: game.creator_id,
+        message: `${game.first_name} ${game.last_name} published a new game: ${game.title}`
+    });
+};
+
+/**
+ * Lists a user's notifications, newest first, with how many are unread in total.
+ */
+const getNotifications = async (
+    userId: number,
+    params: GetNotificationsParams
+): Promise<{ notifications: Notification[]; count: number; unreadCount: number }> => {
+    const pool = getPool();
+    const whereClause = params.unreadOnly ? "WHERE user_id = ? AND read_at IS NULL" : "WHERE user_id = ?";
+    const [countRows] = await pool.query(`SELECT COUNT(*) AS total FROM notification ${whereClause}`, [userId]);
+    const [unreadRows] = await pool.query(
+        "SELECT COUNT(*) AS unread FROM notification WHERE user_id = ? AND read_at IS NULL",
+        [userId]
+    );
+    const query = `
+        SELECT id AS notificationId, type, game_id AS gameId, actor_id AS actorId, message, created_at AS createdAt,
+               read_at AS readAt
+        FROM notification
+        ${whereClause}
+        ORDER BY created_at DESC, id DESC
+        LIMIT ? OFFSET ?
+    `;
+    const [rows] = await pool.query(query, [userId, params.count, params.startIndex]);
+    return {
+        notifications: (rows as any[]).map((row) => ({
+            notificationId: row.notificationId,
+            type: row.type,
+            gameId: row.gameId,
+            actorId: row.actorId,
+            message: row.message,
+            createdAt: fromDbDate(row.createdAt),
+            read: row.readAt !== null
+        })),
+        count: Number((countRows as any[])[0].total),
+        unreadCount: Number((unreadRows as any[])[0].unread)
+    };
+};
+
+/**
+ * Marks one of the user's notifications as read. Marking a read notification again changes nothing.
+ */
+const markRead = async (userId: number, notificationId: number): Promise<void> => {
+    const pool = getPool();
+    const [rows] = await pool.query("SELECT id FROM notification WHERE id = ? AND user_id = ?", [notificationId, userId]);
+    if (!rows || (rows as any[]).length === 0) {
+        throw new NotFoundError("No notification found with id", "NOTIFICATION_NOT_FOUND");
+    }
+    await pool.query(
+        "UPDATE notification SET read_at = ? WHERE id = ? AND read_at IS NULL",
+        [toDbDate(new Date()), notificationId]
+    );
+};
+
+/**
+ * Marks every unread notification of the user as read.
+ */
+const markAllRead = async (userId: number): Promise<void> => {
+    await getPool().query(
+        "UPDATE notification SET read_at = ? WHERE user_id = ? AND read_at IS NULL",
+        [toDbDate(new Date()), userId]
+    );
+};
+
+/**
+ * Returns whether the user receives each notification type.
+ */
+const getPreferences = async (userId: number): Promise<{ [type: string]: boolean }> => {
+    const [rows] = await getPool().query("SELECT type, enabled FROM notification_preference WHERE user_id = ?", [userId]);
+    const preferences: { [type: string]: boolean } = {};
+    for (const type of NOTIFICATION_TYPES) {
+        preferences[type] = true;
+    }
+    for (const row of rows as any[]) {
+        if (preferences[row.type] !== undefined) {
+            preferences[row.type] = Boolean(row.enabled);
+        }
+    }
+    return preferences;
+};
+
+/**
+ * Switches the given notification types on or off for the user. Types left out keep their current setting.
+ */
+const setPreferences = async (userId: number, preferences: { [type: string]: boolean }): Promise<void> => {
+    const pool = getPool();
+    for (const type of Object.keys(preferences)) {
+        const enabled = preferences[type] ? 1 : 0;
+        const [result] = await pool.query(
+            "UPDATE notification_preference SET enabled = ? WHERE user_id = ? AND type = ?",
+            [enabled, userId, type]
+        );
+        if ((result as any).affectedRows === 0) {
+            await pool.query(
+                "INSERT INTO notification_preference (user_id, type, enabled) VALUES (?, ?, ?)",
+                [userId, type, enabled]
+            );
+        }
+    }
+};
+
+/**
+ * Keeps the notifications about a game that is being deleted, unlinking them from the game.
+ */
+const detachNotificationsFromGame = async (gameId: number): Promise<void> => {
+    await getPool().query("UPDATE notification SET game_id = NULL WHERE game_id = ?", [gameId]);
+};
+
+export {
+    NOTIFICATION_TYPES, Notification, PriceDrop, GetNotificationsParams, notifyPriceDrop, notifyNewReview, notifyNewGame,
+    getNotifications, markRead, markAllRead, getPreferences, setPreferences, detachNotificationsFromGame
+}
@@ -0,0 +1,58 @@
+import { getPool } from "../../config/db";
+import Logger from "../../config/logger";
+import { hashToken } from "../services/tokens";
+import { toDbDate } from "../services/dates";
+
+// How long a password reset link stays valid after it is requested.
+const PASSWORD_RESET_TTL_MINUTES = parseInt(process.env.PASSWORD_RESET_TTL_MINUTES, 10) || 60;
+
+/**
+ * Stores a new reset token for the user. Only the latest token is kept, so requesting another reset
+ * invalidates any earlier link that hasn't been used.
+ */
+const createResetToken = async (userId: number, token: string): Promise<void> => {
+    try {
+        const pool = getPool();
+        const now = new Date();
+        const expires = new Date(now.getTime() + PASSWORD_RESET_TTL_MINUTES * 60 * 1000);
+        await pool.query("DELETE FROM password_reset WHERE user_id = ? AND used_at IS NULL", [userId]);
+        const sql = `
+            INSERT INTO password_reset (user_id, token_hash, created_at, expires_at)
+            VALUES (?, ?, ?, ?)
+        `;
+        await pool.query(sql, [userId, hashToken(token), toDbDate(now), toDbDate(expires)]);
+    } catch (err: any) {
+        Logger.error(err.sql);
+        throw err;
+    }
+}
+
+/**
+ * Marks a reset token as used and returns the id of the user it belongs to, or null if the token is unknown,
+ * expired or already used. The update only succeeds while used_at is still NULL, so two concurrent requests
+ * can't both redeem the same token.
+ */
+const consumeResetToken = async (token: string): Promise<number | null> => {
+    try {
+        const pool = getPool();
+        const tokenHash = hashToken(token);
+        const now = toDbDate(new Date());
+        const [rows] = await pool.query(
+            "SELECT id, user_id AS userId FROM password_reset WHERE token_hash = ? AND used_at IS NULL AND expires_at > ?",
+            [tokenHash, now]
+        );
+        if (!rows || rows.length === 0) {
+            return null;
+        }
+        const [result] = await pool.query(
+            "UPDATE password_reset SET used_at = ? WHERE id = ? AND used_at IS NULL",
+            [now, rows[0].id]
+        );
+        return result.affectedRows > 0 ? rows[0].userId : null;
+    } catch (err: any) {
+        Logger.error(err.sql);
+        throw err;
+    }
+}
+
+export { createResetToken, consumeResetToken }
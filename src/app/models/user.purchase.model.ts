@@ -0,0 +1,95 @@
+import { getPool } from "../../config/db";
+import { BASE_CURRENCY } from "../services/currency";
+import { fromDbDate, toDbDate } from "../services/dates";
+
+interface Purchase {
+    purchaseId: number;
+    gameId: number | null;
+    bundleId: number | null;
+    gameTitle: string;
+    pricePaid: number;
+    currency: string;
+    source: string;
+    purchasedAt: string;
+}
+
+/**
+ * Adds a ledger entry for a game the user now owns. The source is one of purchase, gift, key, free or bundle, and
+ * only a purchase costs anything; the others are recorded with a price of 0. Games owned through a bundle carry the
+ * bundle's id, since the bundle's own entry holds what was paid. Pass the connection of a transaction the entry
+ * belongs to.
+ */
+const recordPurchase = async (
+    userId: number,
+    game: { id: number, title: string, price: number },
+    source: string,
+    bundleId: number | null = null,
+    connection: any = getPool()
+): Promise<void> => {
+    const pricePaid = source === "purchase" ? game.price : 0;
+    const query = `
+        INSERT INTO purchase (user_id, game_id, bundle_id, game_title, price_paid, currency, source, purchased_at)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+    `;
+    await connection.query(query, [
+        userId, game.id, bundleId, game.title, pricePaid, BASE_CURRENCY, source, toDbDate(new Date())
+    ]);
+};
+
+/**
+ * Adds the ledger entry for a bundle the user bought, without a game id and with the bundle's title and price.
+ */
+const recordBundlePurchase = async (
+    userId: number,
+    bundle: { id: number, title: string, price: number },
+    connection: any = getPool()
+): Promise<void> => {
+    const query = `
+        INSERT INTO purchase (user_id, game_id, bundle_id, game_title, price_paid, currency, source, purchased_at)
+        VALUES (?, NULL, ?, ?, ?, ?, 'bundle', ?)
+    `;
+    await connection.query(query, [userId, bundle.id, bundle.title, bundle.price, BASE_CURRENCY, toDbDate(new Date())]);
+};
+
+/**
+ * Lists a user's ledger entries, most recent first.
+ */
+const getPurchasesByUserId = async (userId: number): Promise<Purchase[]> => {
+    const query = `
+        SELECT id AS purchaseId, game_id AS gameId, bundle_id AS bundleId, game_title AS gameTitle, price_paid AS pricePaid,
+               currency, source, purchased_at AS purchasedAt
+        FROM purchase
+        WHERE user_id = ?
+        ORDER BY purchased_at DESC, id DESC
+    `;
+    const [rows] = await getPool().query(query, [userId]);
+    return (rows as any[]).map((row) => ({
+        purchaseId: row.purchaseId,
+        gameId: row.gameId,
+        bundleId: row.bundleId,
+        gameTitle: row.gameTitle,
+        pricePaid: row.pricePaid,
+        currency: row.currency,
+        source: row.source,
+        purchasedAt: fromDbDate(row.purchasedAt)
+    }));
+};
+
+/**
+ * Keeps the ledger entries of a game that is being deleted, unlinking them from the game.
+ */
+const detachPurchasesFromGame = async (gameId: number): Promise<void> => {
+    await getPool().query("UPDATE purchase SET game_id = NULL WHERE game_id = ?", [gameId]);
+};
+
+/**
+ * Keeps the ledger entries of a bundle that is being deleted, unlinking them from the bundle.
+ */
+const detachPurchasesFromBundle = async (bundleId: number): Promise<void> => {
+    await getPool().query("UPDATE purchase SET bundle_id = NULL WHERE bundle_id = ?", [bundleId]);
+};
+
+export {
+    Purchase, recordPurchase, recordBundlePurchase, getPurchasesByUserId, detachPurchasesFromGame,
+    detachPurchasesFromBundle
+}
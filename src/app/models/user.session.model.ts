@@ -0,0 +1,132 @@
+import { getPool } from "../../config/db";
+import Logger from "../../config/logger";
+import { hashToken } from "../services/tokens";
+import { fromDbDate, toDbDate } from "../services/dates";
+
+// How long a session stays valid after login.
+const SESSION_TTL_HOURS = parseInt(process.env.SESSION_TTL_HOURS, 10) || 168;
+
+interface Session {
+    sessionId: number;
+    deviceLabel: string | null;
+    createdAt: string;
+    lastUsedAt: string;
+    expiresAt: string;
+    current: boolean;
+}
+
+/**
+ * Creates a new session for the user, leaving any existing sessions untouched.
+ * Expired sessions belonging to the user are cleaned up at the same time.
+ */
+const createSession = async (userId: number, token: string, deviceLabel: string | null): Promise<number> => {
+    try {
+        const pool = getPool();
+        const now = new Date();
+        const expires = new Date(now.getTime() + SESSION_TTL_HOURS * 60 * 60 * 1000);
+        await pool.query("DELETE FROM user_session WHERE user_id = ? AND expires_at <= ?", [userId, toDbDate(now)]);
+        const sql = `
+            INSERT INTO user_session (user_id, token_hash, device_label, created_at, last_used_at, expires_at)
+            VALUES (?, ?, ?, ?, ?, ?)
+        `;
+        const [result] = await pool.query(sql, [userId, hashToken(token), deviceLabel, toDbDate(now), toDbDate(now), toDbDate(expires)]);
+        return result.insertId;
+    } catch (err: any) {
+        Logger.error(err.sql);
+        throw err;
+    }
+}
+
+/**
+ * Returns the user and session a token belongs to, or null if the token is unknown or expired.
+ * Expired sessions are removed when they are found, and a successful lookup refreshes last_used_at.
+ */
+const getSessionByToken = async (token: string): Promise<{ id: number, sessionId: number } | null> => {
+    try {
+        const pool = getPool();
+        const tokenHash = hashToken(token);
+        const now = toDbDate(new Date());
+        const sql = `
+            SELECT id AS sessionId, user_id AS userId
+            FROM user_session
+            WHERE token_hash = ? AND expires_at > ?
+        `;
+        const [rows] = await pool.query(sql, [tokenHash, now]);
+        if (rows.length === 0) {
+            // Clear out the session if it exists but has expired.
+            await pool.query("DELETE FROM user_session WHERE token_hash = ?", [tokenHash]);
+            return null;
+        }
+        const session = rows[0];
+        await pool.query("UPDATE user_session SET last_used_at = ? WHERE id = ?", [now, session.sessionId]);
+        return { id: session.userId, sessionId: session.sessionId };
+    } catch (err: any) {
+        Logger.error(err.sql);
+        throw err;
+    }
+}
+
+const getSessionsByUserId = async (userId: number, currentSessionId?: number): Promise<Session[]> => {
+    try {
+        const sql = `
+            SELECT id AS sessionId,
+                   device_label AS deviceLabel,
+                   created_at AS createdAt,
+                   last_used_at AS lastUsedAt,
+                   expires_at AS expiresAt
+            FROM user_session
+            WHERE user_id = ? AND expires_at > ?
+            ORDER BY last_used_at DESC, id DESC
+        `;
+        const [rows] = await getPool().query(sql, [userId, toDbDate(new Date())]);
+        return (rows as any[]).map(row => ({
+            sessionId: row.sessionId,
+            deviceLabel: row.deviceLabel,
+            createdAt: fromDbDate(row.createdAt),
+            lastUsedAt: fromDbDate(row.lastUsedAt),
+            expiresAt: fromDbDate(row.expiresAt),
+            current: row.sessionId === currentSessionId
+        }));
+    } catch (err: any) {
+        Logger.error(err.sql);
+        throw err;
+    }
+}
+
+/**
+ * Revokes a single session. Returns false if the user has no session with that id.
+ */
+const deleteSession = async (userId: number, sessionId: number): Promise<boolean> => {
+    try {
+        const [result] = await getPool().query("DELETE FROM user_session WHERE id = ? AND user_id = ?", [sessionId, userId]);
+        return result.affectedRows > 0;
+    } catch (err: any) {
+        Logger.error(err.sql);
+        throw err;
+    }
+}
+
+const deleteSessionByToken = async (token: string): Promise<void> => {
+    try {
+        await getPool().query("DELETE FROM user_session WHERE token_hash = ?", [hashToken(token)]);
+    } catch (err: any) {
+        Logger.error(err.sql);
+        throw err;
+    }
+}
+
+/**
+ * Revokes every session the user has, logging them out everywhere.
+ */
+const deleteSessionsByUserId = async (userId: number): Promise<void> => {
+    try {
+        const pool = getPool();
+        await pool.query("DELETE FROM user_session WHERE user_id = ?", [userId]);
+        await pool.query("UPDATE user SET auth_token = NULL WHERE id = ?", [userId]);
+    } catch (err: any) {
+        Logger.error(err.sql);
+        throw err;
+    }
+}
+
+export { Session, createSession, getSessionByToken, getSessionsByUserId, deleteSession, deleteSessionByToken, deleteSessionsByUserId }
@@ -0,0 +1,9 @@
+-- Tables must be dropped in reverse order due to referential constraints (foreign keys).
+DROP TABLE IF EXISTS `game_review`;
+DROP TABLE IF EXISTS `owned`;
+DROP TABLE IF EXISTS `wishlist`;
+DROP TABLE IF EXISTS `game_platforms`;
+DROP TABLE IF EXISTS `game`;
+DROP TABLE IF EXISTS `platform`;
+DROP TABLE IF EXISTS `genre`;
+DROP TABLE IF EXISTS `user`;
@@ -0,0 +1,88 @@
+-- Initial database structure, as originally created by create_database.sql
+
+-- TABLES --
+-- Tables must be created in a particular order due to referential constraints i.e. foreign keys.
+
+CREATE TABLE `user` (
+  `id`          INT           NOT NULL AUTO_INCREMENT,
+  `email`       VARCHAR(256)  NOT NULL,
+  `first_name`  VARCHAR(64)   NOT NULL,
+  `last_name`   VARCHAR(64)   NOT NULL,
+  `image_filename`  VARCHAR(64)  DEFAULT NULL,
+  `password`    VARCHAR(256)  NOT NULL, -- Only store the hash here, not the actual password!
+  `auth_token`  VARCHAR(256)  DEFAULT NULL,
+  PRIMARY KEY (`id`),
+  UNIQUE (`email`)
+);
+
+CREATE TABLE `genre` (
+  `id`         INT           NOT NULL AUTO_INCREMENT,
+  `name`       VARCHAR(64)   NOT NULL,
+  PRIMARY KEY (`id`),
+  UNIQUE (`name`)
+);
+
+CREATE TABLE `platform` (
+  `id`          INT          NOT NULL AUTO_INCREMENT,
+  `name`        VARCHAR(64)  NOT NULL,
+  PRIMARY KEY (`id`),
+  UNIQUE (`name`)
+);
+
+CREATE TABLE `game` (
+  `id`                          INT             NOT NULL AUTO_INCREMENT,
+  `title`                       VARCHAR(128)    NOT NULL,
+  `description`                 VARCHAR(1024)   NOT NULL,
+  `creation_date`               DATETIME        NOT NULL,
+  `image_filename`              VARCHAR(64)     NULL,
+  `creator_id`                  INT             NOT NULL,
+  `genre_id`                    INT             NOT NULL,
+  `price`                       INT             NOT NULL,
+  PRIMARY KEY (`id`),
+  UNIQUE (`title`),
+  FOREIGN KEY (`creator_id`) REFERENCES `user` (`id`),
+  FOREIGN KEY (`genre_id`) REFERENCES `genre` (`id`)
+);
+
+CREATE TABLE `game_platforms` (
+  `id`            INT     NOT NULL AUTO_INCREMENT,
+  `game_id`       INT     NOT NULL,
+  `platform_id`   INT     NOT NULL,
+  PRIMARY KEY (`id`),
+  UNIQUE (`game_id`, `platform_id`),
+  FOREIGN KEY (`game_id`) REFERENCES `game` (`id`),
+  FOREIGN KEY (`platform_id`) REFERENCES `platform` (`id`)
+);
+
+CREATE TABLE `wishlist` (
+  `id`                          INT             NOT NULL AUTO_INCREMENT,
+  `game_id`                     INT             NOT NULL,
+  `user_id`                     INT             NOT NULL,
+  PRIMARY KEY (`id`),
+  UNIQUE (`game_id`, `user_id`),
+  FOREIGN KEY (`game_id`) REFERENCES `game` (`id`),
+  FOREIGN KEY (`user_id`) REFERENCES `user` (`id`)
+);
+
+CREATE TABLE `owned` (
+  `id`                          INT             NOT NULL AUTO_INCREMENT,
+  `game_id`                     INT             NOT NULL,
+  `user_id`                     INT             NOT NULL,
+  PRIMARY KEY (`id`),
+  UNIQUE (`game_id`, `user_id`),
+  FOREIGN KEY (`game_id`) REFERENCES `game` (`id`),
+  FOREIGN KEY (`user_id`) REFERENCES `user` (`id`)
+);
+
+CREATE TABLE `game_review` (
+  `id`                          INT             NOT NULL AUTO_INCREMENT,
+  `game_id`                     INT             NOT NULL,
+  `user_id`                     INT             NOT NULL,
+  `rating`                      TINYINT         NOT NULL,
+  `review`                      VARCHAR(512)    NULL,
+  `timestamp`                   DATETIME        NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  PRIMARY KEY (`id`),
+  UNIQUE (`game_id`, `user_id`),
+  FOREIGN KEY (`game_id`) REFERENCES `game` (`id`),
+  FOREIGN KEY (`user_id`) REFERENCES `user` (`id`)
+);
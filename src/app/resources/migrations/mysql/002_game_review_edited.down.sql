@@ -0,0 +1 @@
+ALTER TABLE `game_review` DROP COLUMN `edited`;
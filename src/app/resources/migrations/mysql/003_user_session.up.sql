@@ -0,0 +1,13 @@
+-- One row per login, so a user can be logged in on several devices at once.
+CREATE TABLE `user_session` (
+  `id`            INT           NOT NULL AUTO_INCREMENT,
+  `user_id`       INT           NOT NULL,
+  `token_hash`    CHAR(64)      NOT NULL, -- SHA-256 of the token, never the token itself
+  `device_label`  VARCHAR(64)   DEFAULT NULL,
+  `created_at`    DATETIME      NOT NULL,
+  `last_used_at`  DATETIME      NOT NULL,
+  `expires_at`    DATETIME      NOT NULL,
+  PRIMARY KEY (`id`),
+  UNIQUE (`token_hash`),
+  FOREIGN KEY (`user_id`) REFERENCES `user` (`id`)
+);
@@ -0,0 +1 @@
+ALTER TABLE `game` DROP INDEX `game_search`;
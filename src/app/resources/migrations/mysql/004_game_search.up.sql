@@ -0,0 +1,2 @@
+-- Full-text index over game titles and descriptions, InnoDB keeps it up to date as games change.
+ALTER TABLE `game` ADD FULLTEXT INDEX `game_search` (`title`, `description`);
@@ -0,0 +1,5 @@
+DROP INDEX `game_rating_avg` ON `game`;
+ALTER TABLE `game` DROP COLUMN `wishlist_count`;
+ALTER TABLE `game` DROP COLUMN `owner_count`;
+ALTER TABLE `game` DROP COLUMN `review_count`;
+ALTER TABLE `game` DROP COLUMN `rating_avg`;
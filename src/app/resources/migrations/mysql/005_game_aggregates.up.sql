@@ -0,0 +1,14 @@
+-- Denormalised review, owner and wishlist figures, kept up to date by the review and action models.
+ALTER TABLE `game` ADD COLUMN `rating_avg` DOUBLE NOT NULL DEFAULT 0;
+ALTER TABLE `game` ADD COLUMN `review_count` INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE `game` ADD COLUMN `owner_count` INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE `game` ADD COLUMN `wishlist_count` INTEGER NOT NULL DEFAULT 0;
+
+UPDATE `game` SET
+  `rating_avg` = (SELECT IFNULL(AVG(r.`rating`), 0) FROM `game_review` r WHERE r.`game_id` = `game`.`id`),
+  `review_count` = (SELECT COUNT(*) FROM `game_review` r WHERE r.`game_id` = `game`.`id`),
+  `owner_count` = (SELECT COUNT(*) FROM `owned` o WHERE o.`game_id` = `game`.`id`),
+  `wishlist_count` = (SELECT COUNT(*) FROM `wishlist` w WHERE w.`game_id` = `game`.`id`);
+
+-- Lets the RATING_* sorts read games in order, id breaks ties.
+CREATE INDEX `game_rating_avg` ON `game` (`rating_avg`, `id`);
@@ -0,0 +1,12 @@
+-- Screenshot gallery, separate from the single cover image in game.image_filename.
+CREATE TABLE `game_image` (
+  `id`              INT           NOT NULL AUTO_INCREMENT,
+  `game_id`         INT           NOT NULL,
+  `image_filename`  VARCHAR(64)   NOT NULL,
+  `caption`         VARCHAR(256)  DEFAULT NULL,
+  `position`        INT           NOT NULL, -- display order within the game, starting at 0
+  `created_at`      DATETIME      NOT NULL,
+  PRIMARY KEY (`id`),
+  INDEX `game_image_game_id` (`game_id`, `position`),
+  FOREIGN KEY (`game_id`) REFERENCES `game` (`id`)
+);
@@ -0,0 +1,8 @@
+-- Failed login counters, used when LOGIN_THROTTLE_STORE=database. Keys are email:<address> or ip:<address>.
+CREATE TABLE `login_attempt` (
+  `attempt_key`      VARCHAR(320)  NOT NULL,
+  `failures`         INT           NOT NULL,
+  `last_failure_at`  BIGINT        NOT NULL, -- milliseconds since the epoch
+  `locked_until`     BIGINT        DEFAULT NULL, -- milliseconds since the epoch
+  PRIMARY KEY (`attempt_key`)
+);
@@ -0,0 +1,12 @@
+-- Single-use password reset tokens, emailed to the user.
+CREATE TABLE `password_reset` (
+  `id`          INT           NOT NULL AUTO_INCREMENT,
+  `user_id`     INT           NOT NULL,
+  `token_hash`  CHAR(64)      NOT NULL, -- SHA-256 of the token, never the token itself
+  `created_at`  DATETIME      NOT NULL,
+  `expires_at`  DATETIME      NOT NULL,
+  `used_at`     DATETIME      DEFAULT NULL,
+  PRIMARY KEY (`id`),
+  UNIQUE (`token_hash`),
+  FOREIGN KEY (`user_id`) REFERENCES `user` (`id`)
+);
@@ -0,0 +1,10 @@
+-- Helpful (1) or unhelpful (0) votes on reviews, at most one per user per review.
+CREATE TABLE `review_vote` (
+  `review_id`   INT           NOT NULL,
+  `user_id`     INT           NOT NULL,
+  `helpful`     TINYINT(1)    NOT NULL,
+  `created_at`  DATETIME      NOT NULL,
+  PRIMARY KEY (`review_id`, `user_id`),
+  FOREIGN KEY (`review_id`) REFERENCES `game_review` (`id`),
+  FOREIGN KEY (`user_id`) REFERENCES `user` (`id`)
+);
@@ -0,0 +1,9 @@
+-- The game creator's public reply to a review, at most one per review.
+CREATE TABLE `review_reply` (
+  `review_id`   INT           NOT NULL,
+  `reply`       VARCHAR(512)  NOT NULL,
+  `timestamp`   DATETIME      NOT NULL,
+  `edited`      DATETIME      NULL,
+  PRIMARY KEY (`review_id`),
+  FOREIGN KEY (`review_id`) REFERENCES `game_review` (`id`)
+);
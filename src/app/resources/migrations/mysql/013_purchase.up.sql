@@ -0,0 +1,16 @@
+-- Ledger of how each game came to be owned. Rows are never removed when a game is unmarked as owned. When a game is
+-- deleted its rows keep the title and lose the game id. Games owned before the ledger existed have no rows.
+CREATE TABLE `purchase` (
+  `id`            INT           NOT NULL AUTO_INCREMENT,
+  `user_id`       INT           NOT NULL,
+  `game_id`       INT           NULL,
+  `game_title`    VARCHAR(128)  NOT NULL,
+  `price_paid`    INT           NOT NULL, -- in cents, 0 unless source is 'purchase'
+  `currency`      CHAR(3)       NOT NULL,
+  `source`        VARCHAR(16)   NOT NULL, -- 'purchase', 'gift', 'key' or 'free'
+  `purchased_at`  DATETIME      NOT NULL,
+  PRIMARY KEY (`id`),
+  INDEX `purchase_user_id` (`user_id`, `purchased_at`),
+  FOREIGN KEY (`user_id`) REFERENCES `user` (`id`),
+  FOREIGN KEY (`game_id`) REFERENCES `game` (`id`)
+);
@@ -0,0 +1,28 @@
+-- Time-boxed discounts. kind is 'PERCENTAGE' (amount is the percent off, 1 to 99) or 'FIXED_PRICE' (amount is the
+-- sale price in cents). A game's discounts never overlap, so at most one is active at a time.
+CREATE TABLE `game_discount` (
+  `id`          INT           NOT NULL AUTO_INCREMENT,
+  `game_id`     INT           NOT NULL,
+  `kind`        VARCHAR(16)   NOT NULL,
+  `amount`      INT           NOT NULL,
+  `starts_at`   DATETIME      NOT NULL,
+  `ends_at`     DATETIME      NOT NULL, -- exclusive
+  `created_at`  DATETIME      NOT NULL,
+  PRIMARY KEY (`id`),
+  INDEX `game_discount_game_id` (`game_id`, `starts_at`),
+  FOREIGN KEY (`game_id`) REFERENCES `game` (`id`)
+);
+
+-- Every base price a game has had, starting with the price it was created with.
+CREATE TABLE `game_price_history` (
+  `id`          INT           NOT NULL AUTO_INCREMENT,
+  `game_id`     INT           NOT NULL,
+  `price`       INT           NOT NULL,
+  `changed_at`  DATETIME      NOT NULL,
+  PRIMARY KEY (`id`),
+  INDEX `game_price_history_game_id` (`game_id`, `changed_at`),
+  FOREIGN KEY (`game_id`) REFERENCES `game` (`id`)
+);
+
+INSERT INTO `game_price_history` (`game_id`, `price`, `changed_at`)
+SELECT `id`, `price`, `creation_date` FROM `game`;
@@ -0,0 +1,9 @@
+-- Prices a creator has set for a game in currencies other than the base currency, in cents of that currency.
+-- Currencies without a row here are priced by converting the base price through the rate table.
+CREATE TABLE `game_regional_price` (
+  `game_id`     INT           NOT NULL,
+  `currency`    CHAR(3)       NOT NULL,
+  `price`       INT           NOT NULL,
+  PRIMARY KEY (`game_id`, `currency`),
+  FOREIGN KEY (`game_id`) REFERENCES `game` (`id`)
+);
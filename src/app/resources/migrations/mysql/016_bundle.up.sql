@@ -0,0 +1,26 @@
+-- Several games by one creator sold together. price is in cents of the base currency.
+CREATE TABLE `bundle` (
+  `id`              INT           NOT NULL AUTO_INCREMENT,
+  `title`           VARCHAR(128)  NOT NULL,
+  `description`     VARCHAR(1024) NOT NULL,
+  `creation_date`   DATETIME      NOT NULL,
+  `creator_id`      INT           NOT NULL,
+  `price`           INT           NOT NULL,
+  `image_filename`  VARCHAR(64)   NULL,
+  PRIMARY KEY (`id`),
+  UNIQUE (`title`),
+  FOREIGN KEY (`creator_id`) REFERENCES `user` (`id`)
+);
+
+CREATE TABLE `bundle_game` (
+  `bundle_id`   INT           NOT NULL,
+  `game_id`     INT           NOT NULL,
+  PRIMARY KEY (`bundle_id`, `game_id`),
+  INDEX `bundle_game_game_id` (`game_id`),
+  FOREIGN KEY (`bundle_id`) REFERENCES `bundle` (`id`),
+  FOREIGN KEY (`game_id`) REFERENCES `game` (`id`)
+);
+
+-- Buying a bundle adds one row for the bundle itself (no game id, the bundle title, the bundle price) and one row per
+-- game it made owned (source 'bundle', price 0), all with the bundle id.
+ALTER TABLE `purchase` ADD COLUMN `bundle_id` INT NULL;
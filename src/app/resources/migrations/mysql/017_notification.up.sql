@@ -0,0 +1,26 @@
+-- In-app notifications. type is 'PRICE_DROP', 'NEW_REVIEW' or 'NEW_GAME'. game_id is the game it is about (NULL
+-- once that game is deleted) and actor_id the user whose action caused it, if any.
+CREATE TABLE `notification` (
+  `id`          INT           NOT NULL AUTO_INCREMENT,
+  `user_id`     INT           NOT NULL,
+  `type`        VARCHAR(16)   NOT NULL,
+  `game_id`     INT           NULL,
+  `actor_id`    INT           NULL,
+  `message`     VARCHAR(512)  NOT NULL,
+  `created_at`  DATETIME      NOT NULL,
+  `read_at`     DATETIME      NULL,
+  PRIMARY KEY (`id`),
+  INDEX `notification_user_id` (`user_id`, `created_at`),
+  FOREIGN KEY (`user_id`) REFERENCES `user` (`id`),
+  FOREIGN KEY (`game_id`) REFERENCES `game` (`id`),
+  FOREIGN KEY (`actor_id`) REFERENCES `user` (`id`)
+);
+
+-- Notification types a user has switched off or back on. Types without a row are on.
+CREATE TABLE `notification_preference` (
+  `user_id`     INT           NOT NULL,
+  `type`        VARCHAR(16)   NOT NULL,
+  `enabled`     TINYINT(1)    NOT NULL,
+  PRIMARY KEY (`user_id`, `type`),
+  FOREIGN KEY (`user_id`) REFERENCES `user` (`id`)
+);
@@ -0,0 +1,10 @@
+-- Creators a user follows. Games they publish and reviews they write show up in the follower's feed.
+CREATE TABLE `follow` (
+  `follower_id` INT           NOT NULL,
+  `creator_id`  INT           NOT NULL,
+  `created_at`  DATETIME      NOT NULL,
+  PRIMARY KEY (`follower_id`, `creator_id`),
+  INDEX `follow_creator_id` (`creator_id`),
+  FOREIGN KEY (`follower_id`) REFERENCES `user` (`id`),
+  FOREIGN KEY (`creator_id`) REFERENCES `user` (`id`)
+);
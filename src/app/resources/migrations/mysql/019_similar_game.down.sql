@@ -0,0 +1,2 @@
+ALTER TABLE `game` DROP COLUMN `similar_refreshed_at`;
+DROP TABLE IF EXISTS `game_similarity`;
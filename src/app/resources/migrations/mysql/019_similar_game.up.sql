@@ -0,0 +1,17 @@
+-- Precomputed "players also own" lists. Each game keeps its most similar games, scored from shared owners and
+-- wishlisters, a shared genre and overlapping platforms.
+CREATE TABLE `game_similarity` (
+  `game_id`           INT           NOT NULL,
+  `similar_game_id`   INT           NOT NULL,
+  `score`             DOUBLE        NOT NULL,
+  `shared_players`    INT           NOT NULL,
+  `same_genre`        TINYINT(1)    NOT NULL,
+  `shared_platforms`  INT           NOT NULL,
+  PRIMARY KEY (`game_id`, `similar_game_id`),
+  INDEX `game_similarity_similar_game_id` (`similar_game_id`),
+  FOREIGN KEY (`game_id`) REFERENCES `game` (`id`),
+  FOREIGN KEY (`similar_game_id`) REFERENCES `game` (`id`)
+);
+
+-- When a game's list was last computed. NULL means it is missing or out of date and must be recomputed.
+ALTER TABLE `game` ADD COLUMN `similar_refreshed_at` DATETIME NULL;
@@ -0,0 +1,29 @@
+-- Tags describe games more finely than their genre. Names are stored lower case and are unique.
+CREATE TABLE `tag` (
+  `id`          INT           NOT NULL AUTO_INCREMENT,
+  `name`        VARCHAR(32)   NOT NULL,
+  PRIMARY KEY (`id`),
+  UNIQUE (`name`)
+);
+
+-- Tags a game's creator has attached to it.
+CREATE TABLE `game_tag` (
+  `game_id`     INT           NOT NULL,
+  `tag_id`      INT           NOT NULL,
+  PRIMARY KEY (`game_id`, `tag_id`),
+  INDEX `game_tag_tag_id` (`tag_id`),
+  FOREIGN KEY (`game_id`) REFERENCES `game` (`id`),
+  FOREIGN KEY (`tag_id`) REFERENCES `tag` (`id`)
+);
+
+-- Tags owners of a game have suggested for it. A suggestion is dropped once the creator attaches the tag.
+CREATE TABLE `tag_suggestion` (
+  `game_id`     INT           NOT NULL,
+  `tag_id`      INT           NOT NULL,
+  `user_id`     INT           NOT NULL,
+  `created_at`  DATETIME      NOT NULL,
+  PRIMARY KEY (`game_id`, `tag_id`, `user_id`),
+  FOREIGN KEY (`game_id`) REFERENCES `game` (`id`),
+  FOREIGN KEY (`tag_id`) REFERENCES `tag` (`id`),
+  FOREIGN KEY (`user_id`) REFERENCES `user` (`id`)
+);
@@ -0,0 +1,15 @@
+-- Every genre of a game, built like game_platforms. game.genre_id stays as the primary genre and is always one of
+-- the game's rows here.
+CREATE TABLE `game_genres` (
+  `id`            INT     NOT NULL AUTO_INCREMENT,
+  `game_id`       INT     NOT NULL,
+  `genre_id`      INT     NOT NULL,
+  PRIMARY KEY (`id`),
+  UNIQUE (`game_id`, `genre_id`),
+  INDEX `game_genres_genre_id` (`genre_id`),
+  FOREIGN KEY (`game_id`) REFERENCES `game` (`id`),
+  FOREIGN KEY (`genre_id`) REFERENCES `genre` (`id`)
+);
+
+INSERT INTO `game_genres` (`game_id`, `genre_id`)
+SELECT `id`, `genre_id` FROM `game`;
@@ -0,0 +1,4 @@
+-- Whether wishlisters have been told about the price drop a discount brings. Discounts are flagged as they start,
+-- so those that have already started are flagged here.
+ALTER TABLE `game_discount` ADD COLUMN `price_drop_notified` TINYINT(1) NOT NULL DEFAULT 0;
+UPDATE `game_discount` SET `price_drop_notified` = 1 WHERE `starts_at` <= UTC_TIMESTAMP();
@@ -1,15 +1,4 @@
--- SQLite scripts for dropping existing tables and recreating the database table structure
-
--- DROP EVERYTHING --
--- Tables/views must be dropped in reverse order due to referential constraints (foreign keys).
-DROP TABLE IF EXISTS `game_review`;
-DROP TABLE IF EXISTS `wishlist`;
-DROP TABLE IF EXISTS `owned`;
-DROP TABLE IF EXISTS `game_platforms`;
-DROP TABLE IF EXISTS `platform`;
-DROP TABLE IF EXISTS `game`;
-DROP TABLE IF EXISTS `genre`;
-DROP TABLE IF EXISTS `user`;
+-- Initial database structure, as originally created by create_database.sql
 
 -- TABLES --
 -- Tables must be created in a particular order due to referential constraints i.e. foreign keys.
@@ -78,7 +67,6 @@ CREATE TABLE `owned` (
   FOREIGN KEY (`user_id`) REFERENCES `user` (`id`)
 );
 
-
 CREATE TABLE `game_review` (
   `id`                          INTEGER         PRIMARY KEY AUTOINCREMENT,
   `game_id`                     INTEGER         NOT NULL,
@@ -0,0 +1,2 @@
+-- When a review was last edited, NULL if it never has been.
+ALTER TABLE `game_review` ADD COLUMN `edited` DATETIME NULL;
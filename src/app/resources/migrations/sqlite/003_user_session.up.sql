@@ -0,0 +1,12 @@
+-- One row per login, so a user can be logged in on several devices at once.
+CREATE TABLE `user_session` (
+  `id`            INTEGER       PRIMARY KEY AUTOINCREMENT,
+  `user_id`       INTEGER       NOT NULL,
+  `token_hash`    TEXT          NOT NULL, -- SHA-256 of the token, never the token itself
+  `device_label`  TEXT          DEFAULT NULL,
+  `created_at`    DATETIME      NOT NULL,
+  `last_used_at`  DATETIME      NOT NULL,
+  `expires_at`    DATETIME      NOT NULL,
+  UNIQUE (`token_hash`),
+  FOREIGN KEY (`user_id`) REFERENCES `user` (`id`)
+);
@@ -0,0 +1,10 @@
+-- Full-text index over game titles and descriptions, keyed by rowid = game.id.
+-- The trigram tokenizer lets any substring of 3+ characters match, like the LIKE search it replaced.
+CREATE VIRTUAL TABLE `game_search` USING fts5(
+  `title`,
+  `description`,
+  tokenize = 'trigram'
+);
+
+INSERT INTO `game_search` (`rowid`, `title`, `description`)
+  SELECT `id`, `title`, `description` FROM `game`;
@@ -0,0 +1,2 @@
+DROP INDEX IF EXISTS `game_image_game_id`;
+DROP TABLE IF EXISTS `game_image`;
@@ -0,0 +1,11 @@
+-- Screenshot gallery, separate from the single cover image in game.image_filename.
+CREATE TABLE `game_image` (
+  `id`              INTEGER       PRIMARY KEY AUTOINCREMENT,
+  `game_id`         INTEGER       NOT NULL,
+  `image_filename`  TEXT          NOT NULL,
+  `caption`         TEXT          DEFAULT NULL,
+  `position`        INTEGER       NOT NULL, -- display order within the game, starting at 0
+  `created_at`      DATETIME      NOT NULL,
+  FOREIGN KEY (`game_id`) REFERENCES `game` (`id`)
+);
+CREATE INDEX `game_image_game_id` ON `game_image` (`game_id`, `position`);
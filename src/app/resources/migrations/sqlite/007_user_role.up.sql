@@ -0,0 +1,2 @@
+-- Either 'user' or 'admin'. Only admins may call the backdoor endpoints.
+ALTER TABLE `user` ADD COLUMN `role` TEXT NOT NULL DEFAULT 'user';
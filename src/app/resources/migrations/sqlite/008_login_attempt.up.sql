@@ -0,0 +1,7 @@
+-- Failed login counters, used when LOGIN_THROTTLE_STORE=database. Keys are email:<address> or ip:<address>.
+CREATE TABLE `login_attempt` (
+  `attempt_key`      TEXT      PRIMARY KEY,
+  `failures`         INTEGER   NOT NULL,
+  `last_failure_at`  INTEGER   NOT NULL, -- milliseconds since the epoch
+  `locked_until`     INTEGER   DEFAULT NULL -- milliseconds since the epoch
+);
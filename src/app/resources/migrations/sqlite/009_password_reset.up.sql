@@ -0,0 +1,11 @@
+-- Single-use password reset tokens, emailed to the user.
+CREATE TABLE `password_reset` (
+  `id`          INTEGER       PRIMARY KEY AUTOINCREMENT,
+  `user_id`     INTEGER       NOT NULL,
+  `token_hash`  TEXT          NOT NULL, -- SHA-256 of the token, never the token itself
+  `created_at`  DATETIME      NOT NULL,
+  `expires_at`  DATETIME      NOT NULL,
+  `used_at`     DATETIME      DEFAULT NULL,
+  UNIQUE (`token_hash`),
+  FOREIGN KEY (`user_id`) REFERENCES `user` (`id`)
+);
@@ -0,0 +1,16 @@
+-- Accounts created before verification existed, and the sample users, count as verified. New registrations and
+-- changed emails are set to 0 until a token is confirmed.
+ALTER TABLE `user` ADD COLUMN `email_verified` INTEGER NOT NULL DEFAULT 1;
+
+-- Outstanding verification tokens. `email` is the address the token was sent to, so a token stops working if the
+-- user changes their email again before using it.
+CREATE TABLE `email_verification` (
+  `id`          INTEGER       PRIMARY KEY AUTOINCREMENT,
+  `user_id`     INTEGER       NOT NULL,
+  `email`       VARCHAR(256)  NOT NULL,
+  `token_hash`  TEXT          NOT NULL,
+  `created_at`  DATETIME      NOT NULL,
+  `expires_at`  DATETIME      NOT NULL,
+  UNIQUE (`token_hash`),
+  FOREIGN KEY (`user_id`) REFERENCES `user` (`id`)
+);
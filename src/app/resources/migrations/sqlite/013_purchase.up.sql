@@ -0,0 +1,15 @@
+-- Ledger of how each game came to be owned. Rows are never removed when a game is unmarked as owned. When a game is
+-- deleted its rows keep the title and lose the game id. Games owned before the ledger existed have no rows.
+CREATE TABLE `purchase` (
+  `id`            INTEGER       PRIMARY KEY AUTOINCREMENT,
+  `user_id`       INTEGER       NOT NULL,
+  `game_id`       INTEGER       NULL,
+  `game_title`    VARCHAR(128)  NOT NULL,
+  `price_paid`    INTEGER       NOT NULL, -- in cents, 0 unless source is 'purchase'
+  `currency`      CHAR(3)       NOT NULL,
+  `source`        VARCHAR(16)   NOT NULL, -- 'purchase', 'gift', 'key' or 'free'
+  `purchased_at`  DATETIME      NOT NULL,
+  FOREIGN KEY (`user_id`) REFERENCES `user` (`id`),
+  FOREIGN KEY (`game_id`) REFERENCES `game` (`id`)
+);
+CREATE INDEX `purchase_user_id` ON `purchase` (`user_id`, `purchased_at`);
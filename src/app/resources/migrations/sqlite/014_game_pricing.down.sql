@@ -0,0 +1,2 @@
+DROP TABLE IF EXISTS `game_price_history`;
+DROP TABLE IF EXISTS `game_discount`;
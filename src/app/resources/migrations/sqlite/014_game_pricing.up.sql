@@ -0,0 +1,26 @@
+-- Time-boxed discounts. kind is 'PERCENTAGE' (amount is the percent off, 1 to 99) or 'FIXED_PRICE' (amount is the
+-- sale price in cents). A game's discounts never overlap, so at most one is active at a time.
+CREATE TABLE `game_discount` (
+  `id`          INTEGER       PRIMARY KEY AUTOINCREMENT,
+  `game_id`     INTEGER       NOT NULL,
+  `kind`        TEXT          NOT NULL,
+  `amount`      INTEGER       NOT NULL,
+  `starts_at`   DATETIME      NOT NULL,
+  `ends_at`     DATETIME      NOT NULL, -- exclusive
+  `created_at`  DATETIME      NOT NULL,
+  FOREIGN KEY (`game_id`) REFERENCES `game` (`id`)
+);
+CREATE INDEX `game_discount_game_id` ON `game_discount` (`game_id`, `starts_at`);
+
+-- Every base price a game has had, starting with the price it was created with.
+CREATE TABLE `game_price_history` (
+  `id`          INTEGER       PRIMARY KEY AUTOINCREMENT,
+  `game_id`     INTEGER       NOT NULL,
+  `price`       INTEGER       NOT NULL,
+  `changed_at`  DATETIME      NOT NULL,
+  FOREIGN KEY (`game_id`) REFERENCES `game` (`id`)
+);
+CREATE INDEX `game_price_history_game_id` ON `game_price_history` (`game_id`, `changed_at`);
+
+INSERT INTO `game_price_history` (`game_id`, `price`, `changed_at`)
+SELECT `id`, `price`, `creation_date` FROM `game`;
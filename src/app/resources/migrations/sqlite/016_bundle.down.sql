@@ -0,0 +1,3 @@
+ALTER TABLE `purchase` DROP COLUMN `bundle_id`;
+DROP TABLE IF EXISTS `bundle_game`;
+DROP TABLE IF EXISTS `bundle`;
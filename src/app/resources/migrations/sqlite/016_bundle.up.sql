@@ -0,0 +1,25 @@
+-- Several games by one creator sold together. price is in cents of the base currency.
+CREATE TABLE `bundle` (
+  `id`              INTEGER       PRIMARY KEY AUTOINCREMENT,
+  `title`           TEXT          NOT NULL,
+  `description`     TEXT          NOT NULL,
+  `creation_date`   DATETIME      NOT NULL,
+  `creator_id`      INTEGER       NOT NULL,
+  `price`           INTEGER       NOT NULL,
+  `image_filename`  TEXT          NULL,
+  UNIQUE (`title`),
+  FOREIGN KEY (`creator_id`) REFERENCES `user` (`id`)
+);
+
+CREATE TABLE `bundle_game` (
+  `bundle_id`   INTEGER       NOT NULL,
+  `game_id`     INTEGER       NOT NULL,
+  PRIMARY KEY (`bundle_id`, `game_id`),
+  FOREIGN KEY (`bundle_id`) REFERENCES `bundle` (`id`),
+  FOREIGN KEY (`game_id`) REFERENCES `game` (`id`)
+);
+CREATE INDEX `bundle_game_game_id` ON `bundle_game` (`game_id`);
+
+-- Buying a bundle adds one row for the bundle itself (no game id, the bundle title, the bundle price) and one row per
+-- game it made owned (source 'bundle', price 0), all with the bundle id.
+ALTER TABLE `purchase` ADD COLUMN `bundle_id` INTEGER NULL;
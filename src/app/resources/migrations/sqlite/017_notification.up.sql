@@ -0,0 +1,25 @@
+-- In-app notifications. type is 'PRICE_DROP', 'NEW_REVIEW' or 'NEW_GAME'. game_id is the game it is about (NULL
+-- once that game is deleted) and actor_id the user whose action caused it, if any.
+CREATE TABLE `notification` (
+  `id`          INTEGER       PRIMARY KEY AUTOINCREMENT,
+  `user_id`     INTEGER       NOT NULL,
+  `type`        VARCHAR(16)   NOT NULL,
+  `game_id`     INTEGER       NULL,
+  `actor_id`    INTEGER       NULL,
+  `message`     TEXT          NOT NULL,
+  `created_at`  DATETIME      NOT NULL,
+  `read_at`     DATETIME      NULL,
+  FOREIGN KEY (`user_id`) REFERENCES `user` (`id`),
+  FOREIGN KEY (`game_id`) REFERENCES `game` (`id`),
+  FOREIGN KEY (`actor_id`) REFERENCES `user` (`id`)
+);
+CREATE INDEX `notification_user_id` ON `notification` (`user_id`, `created_at`);
+
+-- Notification types a user has switched off or back on. Types without a row are on.
+CREATE TABLE `notification_preference` (
+  `user_id`     INTEGER       NOT NULL,
+  `type`        VARCHAR(16)   NOT NULL,
+  `enabled`     INTEGER       NOT NULL,
+  PRIMARY KEY (`user_id`, `type`),
+  FOREIGN KEY (`user_id`) REFERENCES `user` (`id`)
+);
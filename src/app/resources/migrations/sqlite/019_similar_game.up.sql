@@ -0,0 +1,17 @@
+-- Precomputed "players also own" lists. Each game keeps its most similar games, scored from shared owners and
+-- wishlisters, a shared genre and overlapping platforms.
+CREATE TABLE `game_similarity` (
+  `game_id`           INTEGER       NOT NULL,
+  `similar_game_id`   INTEGER       NOT NULL,
+  `score`             REAL          NOT NULL,
+  `shared_players`    INTEGER       NOT NULL,
+  `same_genre`        INTEGER       NOT NULL,
+  `shared_platforms`  INTEGER       NOT NULL,
+  PRIMARY KEY (`game_id`, `similar_game_id`),
+  FOREIGN KEY (`game_id`) REFERENCES `game` (`id`),
+  FOREIGN KEY (`similar_game_id`) REFERENCES `game` (`id`)
+);
+CREATE INDEX `game_similarity_similar_game_id` ON `game_similarity` (`similar_game_id`);
+
+-- When a game's list was last computed. NULL means it is missing or out of date and must be recomputed.
+ALTER TABLE `game` ADD COLUMN `similar_refreshed_at` DATETIME NULL;
@@ -0,0 +1,3 @@
+DROP TABLE IF EXISTS `tag_suggestion`;
+DROP TABLE IF EXISTS `game_tag`;
+DROP TABLE IF EXISTS `tag`;
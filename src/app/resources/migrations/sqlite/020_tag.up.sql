@@ -0,0 +1,27 @@
+-- Tags describe games more finely than their genre. Names are stored lower case and are unique.
+CREATE TABLE `tag` (
+  `id`          INTEGER       PRIMARY KEY AUTOINCREMENT,
+  `name`        VARCHAR(32)   NOT NULL UNIQUE
+);
+
+-- Tags a game's creator has attached to it.
+CREATE TABLE `game_tag` (
+  `game_id`     INTEGER       NOT NULL,
+  `tag_id`      INTEGER       NOT NULL,
+  PRIMARY KEY (`game_id`, `tag_id`),
+  FOREIGN KEY (`game_id`) REFERENCES `game` (`id`),
+  FOREIGN KEY (`tag_id`) REFERENCES `tag` (`id`)
+);
+CREATE INDEX `game_tag_tag_id` ON `game_tag` (`tag_id`);
+
+-- Tags owners of a game have suggested for it. A suggestion is dropped once the creator attaches the tag.
+CREATE TABLE `tag_suggestion` (
+  `game_id`     INTEGER       NOT NULL,
+  `tag_id`      INTEGER       NOT NULL,
+  `user_id`     INTEGER       NOT NULL,
+  `created_at`  DATETIME      NOT NULL,
+  PRIMARY KEY (`game_id`, `tag_id`, `user_id`),
+  FOREIGN KEY (`game_id`) REFERENCES `game` (`id`),
+  FOREIGN KEY (`tag_id`) REFERENCES `tag` (`id`),
+  FOREIGN KEY (`user_id`) REFERENCES `user` (`id`)
+);
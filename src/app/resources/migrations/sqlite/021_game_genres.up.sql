@@ -0,0 +1,14 @@
+-- Every genre of a game, built like game_platforms. game.genre_id stays as the primary genre and is always one of
+-- the game's rows here.
+CREATE TABLE `game_genres` (
+    `id`            INTEGER     PRIMARY KEY AUTOINCREMENT,
+    `game_id`       INTEGER     NOT NULL,
+    `genre_id`      INTEGER     NOT NULL,
+    UNIQUE (`game_id`, `genre_id`),
+    FOREIGN KEY (`game_id`) REFERENCES `game` (`id`),
+    FOREIGN KEY (`genre_id`) REFERENCES `genre` (`id`)
+);
+CREATE INDEX `game_genres_genre_id` ON `game_genres` (`genre_id`);
+
+INSERT INTO `game_genres` (`game_id`, `genre_id`)
+SELECT `id`, `genre_id` FROM `game`;
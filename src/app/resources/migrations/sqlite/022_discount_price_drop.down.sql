@@ -0,0 +1 @@
+ALTER TABLE `game_discount` DROP COLUMN `price_drop_notified`;
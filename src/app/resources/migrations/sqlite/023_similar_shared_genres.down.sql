@@ -0,0 +1 @@
+ALTER TABLE `game_similarity` DROP COLUMN `shared_genres`;
@@ -0,0 +1,4 @@
+-- How many genres a similar game shares with the game, now that games have several. Every list is recomputed so
+-- its scores count all genres rather than only the primary one.
+ALTER TABLE `game_similarity` ADD COLUMN `shared_genres` INTEGER NOT NULL DEFAULT 0;
+UPDATE `game` SET `similar_refreshed_at` = NULL;
@@ -17,6 +17,18 @@ INSERT INTO `genre` (`name`) VALUES
   ('Racing'),
   ('Fighting');
 
+INSERT INTO `tag` (`name`) VALUES
+  ('roguelike'),
+  ('co-op'),
+  ('pixel art'),
+  ('open world'),
+  ('multiplayer'),
+  ('singleplayer'),
+  ('story rich'),
+  ('indie'),
+  ('casual'),
+  ('difficult');
+
 
 INSERT INTO `game` (`title`, `description`, `creation_date`, `image_filename`, `creator_id`, `genre_id`, `price`) VALUES
   ('Battle Quest', 'A high-stakes action game set in a mythical world.', '2024-10-15 14:30:00', 'battle_quest.jpg', 1, 1, 0),
@@ -83,6 +95,34 @@ INSERT INTO `game_platforms` (`game_id`, `platform_id`) VALUES
   (22, 4),
   (22, 5); -- Mystery Island: Nintendo Switch, Mobile
 
+-- Each sample game has only its primary genre.
+INSERT INTO `game_genres` (`game_id`, `genre_id`)
+SELECT `id`, `genre_id` FROM `game`;
+
+INSERT INTO `game_tag` (`game_id`, `tag_id`) VALUES
+  (1, 4), (1, 6),           -- Battle Quest: open world, singleplayer
+  (2, 4), (2, 7),           -- Mystic Realms: open world, story rich
+  (3, 4), (3, 6), (3, 7),   -- Dragon Slayer: open world, singleplayer, story rich
+  (4, 8), (4, 10),          -- Mind Bender: indie, difficult
+  (5, 2), (5, 9),           -- Farm Life: co-op, casual
+  (6, 5),                   -- Empire Conquest: multiplayer
+  (7, 2), (7, 5),           -- Goal Masters: co-op, multiplayer
+  (8, 6), (8, 7),           -- Nightmare Escape: singleplayer, story rich
+  (9, 5),                   -- Speed Racer: multiplayer
+  (10, 2), (10, 5),         -- Martial Fury: co-op, multiplayer
+  (11, 6),                  -- Warrior Legends: singleplayer
+  (12, 3), (12, 8),         -- Cave Explorer: pixel art, indie
+  (13, 4), (13, 7),         -- Fantasy Quest: open world, story rich
+  (14, 3), (14, 8), (14, 10), -- Puzzle Escape: pixel art, indie, difficult
+  (15, 9),                  -- City Builder: casual
+  (16, 5),                  -- Galactic War: multiplayer
+  (17, 5), (17, 9),         -- Street Soccer: multiplayer, casual
+  (18, 1), (18, 8),         -- Haunted Manor: roguelike, indie
+  (19, 5),                  -- Turbo Drift: multiplayer
+  (20, 10),                 -- Samurai Duel: difficult
+  (21, 2), (21, 5),         -- Alien Invasion: co-op, multiplayer
+  (22, 4);                  -- Mystery Island: open world
+
 
 INSERT INTO `wishlist` (`game_id`, `user_id`) VALUES
   (1, 2),  -- User 2 wishes for Battle Quest
@@ -1,18 +1,32 @@
 import {Express} from "express";
 import {rootUrl} from "./base.routes"
+import Logger from "../../config/logger";
 
 import * as backdoor from '../controllers/backdoor.controller';
+import {getBackdoorMode, guardBackdoor} from "../middleware/backdoor.middleware";
 
 module.exports = (app: Express) => {
+    // See BACKDOOR_MODE in the README. When disabled the routes don't exist, so they 404 like any unknown path.
+    const mode = getBackdoorMode();
+    if (mode === "disabled") {
+        Logger.info("Backdoor routes are disabled");
+        return;
+    }
+    Logger.info(`Backdoor routes are enabled in ${mode} mode`);
+    const guard = guardBackdoor(mode);
+
     app.route(rootUrl + '/reset')
-        .post(backdoor.resetDb);
+        .post(guard, backdoor.resetDb);
 
     app.route(rootUrl + '/resample')
-        .post(backdoor.resample);
+        .post(guard, backdoor.resample);
 
     app.route(rootUrl + '/reload')
-        .post(backdoor.reload);
+        .post(guard, backdoor.reload);
 
     app.route(rootUrl + '/executeSql')
-        .post(backdoor.executeSql);
+        .post(guard, backdoor.executeSql);
+
+    app.route(rootUrl + '/recomputeAggregates')
+        .post(guard, backdoor.recomputeAggregates);
 };
@@ -0,0 +1,25 @@
+import { Express } from "express";
+import { rootUrl } from "./base.routes";
+import * as bundleController from '../controllers/bundle.controller';
+import * as bundleImageController from '../controllers/bundle.image.controller';
+import { validateBundleId } from "../middleware/bundle.middleware";
+import { validateAuthToken } from "../middleware/game.middleware";
+import { requireVerifiedEmail } from "../middleware/user.middleware";
+
+module.exports = (app: Express) => {
+    app.route(rootUrl + '/bundles')
+        .get(bundleController.getBundles)
+        .post(validateAuthToken, requireVerifiedEmail, bundleController.addBundle); // Requires a verified account.
+
+    app.route(rootUrl + '/bundles/:id')
+        .get(validateBundleId, bundleController.getBundle)
+        .patch(validateBundleId, validateAuthToken, bundleController.editBundle)
+        .delete(validateBundleId, validateAuthToken, bundleController.deleteBundle);
+
+    app.route(rootUrl + '/bundles/:id/owned')
+        .post(validateBundleId, validateAuthToken, bundleController.buyBundle);
+
+    app.route(rootUrl + '/bundles/:id/image')
+        .get(validateBundleId, bundleImageController.getImage)
+        .put(validateBundleId, validateAuthToken, bundleImageController.setImage);
+};
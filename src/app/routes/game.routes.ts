@@ -4,13 +4,19 @@ import * as gameController from '../controllers/game.controller';
 import * as gameReviewController from '../controllers/game.review.controller';
 import * as gameActionController from '../controllers/game.action.controller';
 import * as gameImageController from '../controllers/game.image.controller';
+import * as gameGalleryController from '../controllers/game.gallery.controller';
+import * as gamePriceController from '../controllers/game.price.controller';
+import * as gameSimilarController from '../controllers/game.similar.controller';
+import * as gameRecommendationController from '../controllers/game.recommendation.controller';
+import * as gameTagController from '../controllers/game.tag.controller';
 import { validateGameRequest, validateGameId, validateAuthToken } from "../middleware/game.middleware";
+import { requireVerifiedEmail } from "../middleware/user.middleware";
 
 module.exports = (app: Express) => {
     // Routes without a game id in the URL.
     app.route(rootUrl + '/games')
         .get(gameController.getAllGames)
-        .post(validateAuthToken, gameController.addGame); // Requires authentication.
+        .post(validateAuthToken, requireVerifiedEmail, gameController.addGame); // Requires a verified account.
 
     app.route(rootUrl + '/games/genres')
         .get(gameController.getGenres);
@@ -18,6 +24,13 @@ module.exports = (app: Express) => {
     app.route(rootUrl + '/games/platforms')
         .get(gameController.getPlatforms);
 
+    app.route(rootUrl + '/games/tags')
+        .get(gameTagController.getTags)
+        .post(validateAuthToken, requireVerifiedEmail, gameTagController.addTag);
+
+    app.route(rootUrl + '/games/recommended')
+        .get(validateAuthToken, gameRecommendationController.getRecommendedGames);
+
     // Routes with a game id.
     app.route(rootUrl + '/games/:id')
         .get(validateGameId, gameController.getGame)
@@ -26,7 +39,37 @@ module.exports = (app: Express) => {
 
     app.route(rootUrl + '/games/:id/reviews')
         .get(validateGameId, gameReviewController.getGameReviews) // Validate game id.
-        .post(validateGameRequest, gameReviewController.addGameReview); // Validate game id and auth.
+        .post(validateGameRequest, requireVerifiedEmail, gameReviewController.addGameReview) // Validate game id and auth.
+        .patch(validateGameRequest, gameReviewController.editGameReview)
+        .delete(validateGameRequest, gameReviewController.deleteGameReview);
+
+    app.route(rootUrl + '/games/:id/reviews/:reviewerId/helpful')
+        .post(validateGameRequest, gameReviewController.voteHelpful)
+        .delete(validateGameRequest, gameReviewController.removeHelpfulVote);
+
+    // The game creator's reply to a review.
+    app.route(rootUrl + '/games/:id/reviews/:reviewerId/reply')
+        .post(validateGameRequest, gameReviewController.addReviewReply)
+        .patch(validateGameRequest, gameReviewController.editReviewReply)
+        .delete(validateGameRequest, gameReviewController.deleteReviewReply);
+
+    app.route(rootUrl + '/games/:id/discounts')
+        .get(validateGameId, gamePriceController.getDiscounts)
+        .post(validateGameRequest, gamePriceController.addDiscount);
+
+    app.route(rootUrl + '/games/:id/discounts/:discountId')
+        .delete(validateGameRequest, gamePriceController.deleteDiscount);
+
+    app.route(rootUrl + '/games/:id/price-history')
+        .get(validateGameId, gamePriceController.getPriceHistory);
+
+    // Tags owners suggest for a game. Its creator attaches tags with tagIds on PATCH /games/:id.
+    app.route(rootUrl + '/games/:id/tags/suggestions')
+        .get(validateGameId, gameTagController.getTagSuggestions)
+        .post(validateGameRequest, gameTagController.suggestTag);
+
+    app.route(rootUrl + '/games/:id/similar')
+        .get(validateGameId, gameSimilarController.getSimilarGames);
 
     app.route(rootUrl + '/games/:id/wishlist')
         .post(validateGameRequest, gameActionController.addGameToWishlist)
@@ -39,4 +82,17 @@ module.exports = (app: Express) => {
     app.route(rootUrl + '/games/:id/image')
         .get(validateGameId, gameImageController.getImage)
         .put(validateGameRequest, gameImageController.setImage);
+
+    // Screenshot gallery, separate from the cover image above.
+    app.route(rootUrl + '/games/:id/images')
+        .get(validateGameId, gameGalleryController.getImages)
+        .post(validateGameRequest, gameGalleryController.addImage);
+
+    app.route(rootUrl + '/games/:id/images/order')
+        .put(validateGameRequest, gameGalleryController.reorderImages);
+
+    app.route(rootUrl + '/games/:id/images/:imageId')
+        .get(validateGameId, gameGalleryController.getImage)
+        .patch(validateGameRequest, gameGalleryController.editImage)
+        .delete(validateGameRequest, gameGalleryController.deleteImage);
 };
@@ -2,6 +2,12 @@ import { Express } from "express";
 import { rootUrl } from "./base.routes";
 import * as user from '../controllers/user.controller';
 import * as userImages from '../controllers/user.image.controller';
+import * as userSessions from '../controllers/user.session.controller';
+import * as userPasswords from '../controllers/user.password.controller';
+import * as userVerification from '../controllers/user.verification.controller';
+import * as userPurchases from '../controllers/user.purchase.controller';
+import * as userNotifications from '../controllers/user.notification.controller';
+import * as userFollows from '../controllers/user.follow.controller';
 import { validateUserId, validateUserAuthToken, authorizeUser } from "../middleware/user.middleware";
 
 module.exports = (app: Express) => {
@@ -14,10 +20,60 @@ module.exports = (app: Express) => {
     app.route(rootUrl + '/users/logout')
         .post(validateUserAuthToken, user.logout);
 
+    app.route(rootUrl + '/users/verify')
+        .post(userVerification.verify);
+
+    app.route(rootUrl + '/users/verify/resend')
+        .post(validateUserAuthToken, userVerification.resend);
+
+    app.route(rootUrl + '/users/password-reset/request')
+        .post(userPasswords.requestReset);
+
+    app.route(rootUrl + '/users/password-reset/confirm')
+        .post(userPasswords.confirmReset);
+
     app.route(rootUrl + '/users/:id')
         .get(validateUserId, user.view)
         .patch(validateUserId, validateUserAuthToken, authorizeUser, user.update);
 
+    app.route(rootUrl + '/users/:id/sessions')
+        .get(validateUserId, validateUserAuthToken, authorizeUser, userSessions.getSessions)
+        .delete(validateUserId, validateUserAuthToken, authorizeUser, userSessions.deleteAllSessions);
+
+    app.route(rootUrl + '/users/:id/sessions/:sessionId')
+        .delete(validateUserId, validateUserAuthToken, authorizeUser, userSessions.deleteSession);
+
+    app.route(rootUrl + '/users/:id/purchases')
+        .get(validateUserId, validateUserAuthToken, authorizeUser, userPurchases.getPurchases);
+
+    app.route(rootUrl + '/users/:id/notifications')
+        .get(validateUserId, validateUserAuthToken, authorizeUser, userNotifications.getNotifications);
+
+    // Marks every notification as read.
+    app.route(rootUrl + '/users/:id/notifications/read')
+        .post(validateUserId, validateUserAuthToken, authorizeUser, userNotifications.markAllRead);
+
+    app.route(rootUrl + '/users/:id/notifications/:notificationId/read')
+        .post(validateUserId, validateUserAuthToken, authorizeUser, userNotifications.markRead);
+
+    app.route(rootUrl + '/users/:id/notification-preferences')
+        .get(validateUserId, validateUserAuthToken, authorizeUser, userNotifications.getPreferences)
+        .patch(validateUserId, validateUserAuthToken, authorizeUser, userNotifications.updatePreferences);
+
+    // The authenticated user follows or unfollows the user with this id.
+    app.route(rootUrl + '/users/:id/follow')
+        .post(validateUserId, validateUserAuthToken, userFollows.follow)
+        .delete(validateUserId, validateUserAuthToken, userFollows.unfollow);
+
+    app.route(rootUrl + '/users/:id/followers')
+        .get(validateUserId, userFollows.getFollowers);
+
+    app.route(rootUrl + '/users/:id/following')
+        .get(validateUserId, userFollows.getFollowing);
+
+    app.route(rootUrl + '/users/:id/feed')
+        .get(validateUserId, validateUserAuthToken, authorizeUser, userFollows.getFeed);
+
     app.route(rootUrl + '/users/:id/image')
         .get(validateUserId, userImages.getImage)
         .put(validateUserId, validateUserAuthToken, authorizeUser, userImages.setImage)
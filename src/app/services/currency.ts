@@ -0,0 +1,75 @@
+import fs from "fs";
+import Logger from "../../config/logger";
+import defaultRates from "../resources/currency_rates.json";
+import { ValidationError } from "./errors";
+
+// Game prices are stored in cents of this currency; every other price is derived from it.
+const BASE_CURRENCY = (process.env.BASE_CURRENCY || "NZD").toUpperCase();
+
+/**
+ * Loads the rate table: how many units of each currency one unit of a common reference is worth, e.g. 0.6 USD to
+ * 1 NZD. Only the ratios between entries matter, so the table does not have to be keyed on the base currency.
+ */
+const loadRates = (): { [currency: string]: number } => {
+    const file = process.env.CURRENCY_RATES_FILE;
+    const rates: { [currency: string]: number } = file ? JSON.parse(fs.readFileSync(file, "utf8")) : defaultRates;
+    for (const currency of Object.keys(rates)) {
+        if (!/^[A-Z]{3}$/.test(currency) || typeof rates[currency] !== "number" || !(rates[currency] > 0)) {
+            throw new Error(`Invalid currency rate table entry: ${currency}`);
+        }
+    }
+    if (rates[BASE_CURRENCY] === undefined) {
+        throw new Error(`The currency rate table has no rate for the base currency ${BASE_CURRENCY}`);
+    }
+    Logger.info(`Loaded rates for ${Object.keys(rates).join(", ")}${file ? ` from ${file}` : ""}`);
+    return rates;
+};
+
+const RATES = loadRates();
+
+// Codes of every currency in the rate table.
+const SUPPORTED_CURRENCIES = Object.keys(RATES);
+
+/**
+ * Returns the normalised code of a supported currency, or the base currency if none was given.
+ */
+const resolveCurrency = (currency?: string): string => {
+    if (currency === undefined) return BASE_CURRENCY;
+    const code = currency.toUpperCase();
+    if (RATES[code] === undefined) {
+        throw new ValidationError(`Unsupported currency: ${currency}`, "INVALID_CURRENCY");
+    }
+    return code;
+};
+
+/**
+ * How many units of the given currency one unit of the base currency buys.
+ */
+const conversionRate = (currency: string): number => {
+    return RATES[currency] / RATES[BASE_CURRENCY];
+};
+
+/**
+ * Normalises the per-currency prices a creator sets on a game, keyed by currency code. Prices in the base currency
+ * are set with the game's own price, so they are rejected here along with unsupported currencies.
+ */
+const resolveRegionalPrices = (prices: { [currency: string]: number }): { [currency: string]: number } => {
+    const resolved: { [currency: string]: number } = {};
+    for (const currency of Object.keys(prices)) {
+        const code = resolveCurrency(currency);
+        if (code === BASE_CURRENCY) {
+            throw new ValidationError(`The ${BASE_CURRENCY} price is set with price`, "INVALID_CURRENCY");
+        }
+        resolved[code] = prices[currency];
+    }
+    return resolved;
+};
+
+/**
+ * Formats a price in cents for people to read, e.g. 4999 NZD as "49.99 NZD".
+ */
+const formatPrice = (cents: number, currency: string = BASE_CURRENCY): string => {
+    return `${(cents / 100).toFixed(2)} ${currency}`;
+};
+
+export { BASE_CURRENCY, SUPPORTED_CURRENCIES, resolveCurrency, conversionRate, resolveRegionalPrices, formatPrice }
@@ -0,0 +1,16 @@
+/**
+ * Formats a date as a UTC "YYYY-MM-DD HH:MM:SS" datetime, which both MySQL and SQLite store and compare as expected.
+ */
+const toDbDate = (date: Date): string => {
+    return date.toISOString().slice(0, 19).replace('T', ' ');
+}
+
+/**
+ * Converts a stored UTC datetime (a Date from MySQL, a string from SQLite) to ISO 8601.
+ */
+const fromDbDate = (value: Date | string): string => {
+    const date = value instanceof Date ? value : new Date(value.replace(" ", "T") + "Z");
+    return date.toISOString();
+}
+
+export { toDbDate, fromDbDate };
@@ -0,0 +1,14 @@
+import { HttpError } from "./http.error";
+
+/**
+ * The action clashes with existing state, e.g. a duplicate title or email, or a second review of a game.
+ * The API spec reports these as 403 Forbidden rather than 409, so that is the status used here too; the code
+ * is what distinguishes them from other 403s.
+ */
+class ConflictError extends HttpError {
+    constructor(message: string, code: string = "CONFLICT") {
+        super(403, code, message);
+    }
+}
+
+export { ConflictError }
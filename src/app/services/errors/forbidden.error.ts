@@ -0,0 +1,12 @@
+import { HttpError } from "./http.error";
+
+/**
+ * The user is authenticated but not allowed to perform the action (403).
+ */
+class ForbiddenError extends HttpError {
+    constructor(message: string, code: string = "FORBIDDEN") {
+        super(403, code, message);
+    }
+}
+
+export { ForbiddenError }
@@ -0,0 +1,19 @@
+/**
+ * Base class for errors that map onto an HTTP response. Models and controllers throw these, and the error
+ * middleware turns them into a JSON body of the form { code, message } with the matching status.
+ * `code` is a stable, machine-readable identifier (e.g. GAME_NOT_FOUND), so clients and controllers never
+ * have to depend on the wording of `message`.
+ */
+class HttpError extends Error {
+    readonly status: number;
+    readonly code: string;
+
+    constructor(status: number, code: string, message: string) {
+        super(message);
+        this.name = new.target.name;
+        this.status = status;
+        this.code = code;
+    }
+}
+
+export { HttpError }
@@ -0,0 +1,12 @@
+// The error hierarchy, one class per file. Import errors from here rather than from the individual files.
+import { HttpError } from "./http.error";
+import { ValidationError } from "./validation.error";
+import { UnauthorizedError } from "./unauthorized.error";
+import { ForbiddenError } from "./forbidden.error";
+import { NotFoundError } from "./not.found.error";
+import { ConflictError } from "./conflict.error";
+import { TooManyRequestsError } from "./too.many.requests.error";
+
+export {
+    HttpError, ValidationError, UnauthorizedError, ForbiddenError, NotFoundError, ConflictError, TooManyRequestsError
+}
@@ -0,0 +1,12 @@
+import { HttpError } from "./http.error";
+
+/**
+ * The resource named in the URL (or referenced by the request) does not exist (404).
+ */
+class NotFoundError extends HttpError {
+    constructor(message: string, code: string = "NOT_FOUND") {
+        super(404, code, message);
+    }
+}
+
+export { NotFoundError }
@@ -0,0 +1,15 @@
+import { HttpError } from "./http.error";
+
+/**
+ * The client has made too many attempts and must wait `retryAfter` seconds, sent as the Retry-After header (429).
+ */
+class TooManyRequestsError extends HttpError {
+    readonly retryAfter: number;
+
+    constructor(message: string, retryAfter: number, code: string = "TOO_MANY_ATTEMPTS") {
+        super(429, code, message);
+        this.retryAfter = retryAfter;
+    }
+}
+
+export { TooManyRequestsError }
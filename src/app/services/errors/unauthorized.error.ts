@@ -0,0 +1,12 @@
+import { HttpError } from "./http.error";
+
+/**
+ * No valid X-Authorization token was supplied (401).
+ */
+class UnauthorizedError extends HttpError {
+    constructor(message: string = "Unauthorized", code: string = "UNAUTHORIZED") {
+        super(401, code, message);
+    }
+}
+
+export { UnauthorizedError }
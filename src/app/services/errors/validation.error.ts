@@ -0,0 +1,12 @@
+import { HttpError } from "./http.error";
+
+/**
+ * The request is malformed or fails a business rule on its input (400).
+ */
+class ValidationError extends HttpError {
+    constructor(message: string, code: string = "VALIDATION_FAILED") {
+        super(400, code, message);
+    }
+}
+
+export { ValidationError }
@@ -0,0 +1,116 @@
+import path from "path";
+import fs from "fs/promises";
+import sharp from "sharp";
+import Logger from "../../config/logger";
+import { ValidationError } from "./errors";
+
+// Longest edge in pixels of each resized variant. "full" is the original upload, never resized.
+const IMAGE_SIZES: { [size: string]: number | null } = {
+    thumb: 150,
+    medium: 600,
+    full: null
+};
+
+const CONTENT_TYPES: { [extension: string]: string } = {
+    ".png": "image/png",
+    ".jpeg": "image/jpeg",
+    ".jpg": "image/jpeg",
+    ".gif": "image/gif"
+};
+
+/**
+ * MIME type to serve a stored image with, based on its file extension.
+ */
+const getContentType = (filename: string): string => {
+    return CONTENT_TYPES[path.extname(filename).toLowerCase()] || "";
+};
+
+/**
+ * File extension to store an uploaded image under. Throws for anything other than PNG, JPEG or GIF.
+ */
+const getExtension = (contentType: string): string => {
+    switch (contentType) {
+        case "image/png":
+            return "png";
+        case "image/jpeg":
+            return "jpeg";
+        case "image/gif":
+            return "gif";
+        default:
+            throw new ValidationError("Unsupported image type", "UNSUPPORTED_IMAGE_TYPE");
+    }
+};
+
+/**
+ * Variants are cached beside the original, e.g. game_1.png has game_1_thumb.png and game_1_medium.png.
+ */
+const variantFilename = (filename: string, size: string): string => {
+    if (!IMAGE_SIZES[size]) return filename;
+    const ext = path.extname(filename);
+    return `${path.basename(filename, ext)}_${size}${ext}`;
+};
+
+const createVariant = async (directory: string, filename: string, size: string): Promise<void> => {
+    const maxEdge = IMAGE_SIZES[size];
+    const image = sharp(path.join(directory, filename), { animated: true });
+    const { format } = await image.metadata();
+    await image
+        .resize(maxEdge, maxEdge, { fit: "inside", withoutEnlargement: true })
+        .toFormat(format)
+        .toFile(path.join(directory, variantFilename(filename, size)));
+};
+
+/**
+ * Generates every resized variant of an image. Failures are logged rather than thrown, since the original can
+ * still be served and variants are retried when they are first requested.
+ */
+const createImageVariants = async (directory: string, filename: string): Promise<void> => {
+    for (const size of Object.keys(IMAGE_SIZES)) {
+        if (!IMAGE_SIZES[size]) continue;
+        try {
+            await createVariant(directory, filename, size);
+        } catch (err) {
+            Logger.error(`Failed to create ${size} variant of image: ${filename}`, err);
+        }
+    }
+};
+
+/**
+ * Returns the path of the requested size of an image, generating the variant if it isn't cached yet.
+ * Falls back to the original if the variant can't be generated.
+ */
+const getImageVariantPath = async (directory: string, filename: string, size: string): Promise<string> => {
+    const variantPath = path.join(directory, variantFilename(filename, size));
+    if (!IMAGE_SIZES[size]) return variantPath;
+    try {
+        await fs.access(variantPath);
+        return variantPath;
+    } catch {
+        // Not generated yet (e.g. the sample images), so fall through and make it now.
+    }
+    try {
+        await createVariant(directory, filename, size);
+        return variantPath;
+    } catch (err) {
+        Logger.error(`Failed to create ${size} variant of image: ${filename}`, err);
+        return path.join(directory, filename);
+    }
+};
+
+/**
+ * Deletes an image along with all of its cached variants.
+ */
+const deleteImageFiles = async (directory: string, filename: string): Promise<void> => {
+    for (const size of Object.keys(IMAGE_SIZES)) {
+        const fullPath = path.join(directory, variantFilename(filename, size));
+        try {
+            await fs.unlink(fullPath);
+        } catch (err) {
+            if (err.code !== "ENOENT") {
+                Logger.error(`Failed to delete image file: ${fullPath}`, err);
+            }
+        }
+    }
+};
+
+export { IMAGE_SIZES, getContentType, getExtension, createImageVariants, getImageVariantPath, deleteImageFiles }
@@ -0,0 +1,49 @@
+import path from "path";
+import fs from "fs/promises";
+import crypto from "crypto";
+import Logger from "../../config/logger";
+
+interface MailMessage {
+    to: string;
+    subject: string;
+    text: string;
+}
+
+/**
+ * Anything that can deliver an email. The server ships with an outbox mailer only; a real transport (SMTP, a
+ * provider's API) can be plugged in with setMailer at startup without touching the code that sends mail.
+ */
+interface Mailer {
+    send(message: MailMessage): Promise<void>;
+}
+
+const OUTBOX_DIR = process.env.MAIL_OUTBOX_DIR || path.join(__dirname, "..", "..", "..", "storage", "outbox");
+
+/**
+ * Writes each message to the outbox directory as a JSON file instead of sending it, so mail can be read during
+ * development and by tests. Filenames start with a timestamp so a directory listing is in send order.
+ */
+const createOutboxMailer = (directory: string): Mailer => ({
+    send: async (message) => {
+        const sentAt = new Date().toISOString();
+        const filename = `${sentAt.replace(/[:.]/g, "-")}_${crypto.randomBytes(4).toString("hex")}.json`;
+        await fs.mkdir(directory, { recursive: true });
+        await fs.writeFile(path.join(directory, filename), JSON.stringify({ ...message, sentAt }, null, 2));
+        Logger.info(`Mail "${message.subject}" to ${message.to} written to outbox as ${filename}`);
+    }
+});
+
+let mailer: Mailer = createOutboxMailer(OUTBOX_DIR);
+
+/**
+ * Replaces the mailer used by sendMail.
+ */
+const setMailer = (newMailer: Mailer): void => {
+    mailer = newMailer;
+};
+
+const sendMail = async (message: MailMessage): Promise<void> => {
+    await mailer.send(message);
+};
+
+export { MailMessage, Mailer, createOutboxMailer, setMailer, sendMail }
@@ -0,0 +1,189 @@
+import Logger from "../../config/logger";
+import * as LoginAttempts from "../models/user.login.attempt.model";
+import { TooManyRequestsError } from "./errors";
+
+type LoginAttempt = LoginAttempts.LoginAttempt;
+
+/**
+ * Where failed login counters are kept. The in-memory store suits a single server process. The database store
+ * shares counters between processes and keeps them across restarts.
+ */
+interface AttemptStore {
+    get(key: string): Promise<LoginAttempt | null>;
+    /**
+     * Saves the counters for a key only if they are still `expected` (null when the key had none), so two logins
+     * can't both count from the same value. Returns whether they were saved.
+     */
+    replace(key: string, expected: LoginAttempt | null, attempt: LoginAttempt): Promise<boolean>;
+    delete(key: string): Promise<void>;
+    prune(lastFailureBefore: number, now: number): Promise<void>;
+    clear(): Promise<void>;
+}
+
+const sameAttempt = (a: LoginAttempt | null, b: LoginAttempt | null): boolean => {
+    if (a === null || b === null) return a === b;
+    return a.failures === b.failures && a.lastFailureAt === b.lastFailureAt && a.lockedUntil === b.lockedUntil;
+};
+
+const createMemoryStore = (): AttemptStore => {
+    const attempts = new Map<string, LoginAttempt>();
+    return {
+        get: async (key) => attempts.get(key) || null,
+        replace: async (key, expected, attempt) => {
+            const current = attempts.get(key) || null;
+            if (!sameAttempt(current, expected)) return false;
+            attempts.set(key, attempt);
+            return true;
+        },
+        delete: async (key) => {
+            attempts.delete(key);
+        },
+        prune: async (lastFailureBefore, now) => {
+            attempts.forEach((attempt, key) => {
+                if (attempt.lastFailureAt < lastFailureBefore && (attempt.lockedUntil === null || attempt.lockedUntil < now)) {
+                    attempts.delete(key);
+                }
+            });
+        },
+        clear: async () => {
+            attempts.clear();
+        }
+    };
+};
+
+const createDatabaseStore = (): AttemptStore => ({
+    get: LoginAttempts.getAttempt,
+    replace: LoginAttempts.replaceAttempt,
+    delete: LoginAttempts.deleteAttempt,
+    prune: LoginAttempts.deleteStaleAttempts,
+    // The table is dropped and recreated along with the rest of the schema when the database is reset.
+    clear: async () => undefined
+});
+
+const store: AttemptStore = process.env.LOGIN_THROTTLE_STORE === "database" ? createDatabaseStore() : createMemoryStore();
+
+// Failures allowed before delays start, and failures before a lockout, for each kind of key. An IP address can
+// front many legitimate users (e.g. a lab or NAT), so it gets more leeway than a single email.
+const POLICIES: { [kind: string]: { freeAttempts: number; lockoutAfter: number } } = {
+    email: { freeAttempts: 3, lockoutAfter: 10 },
+    ip: { freeAttempts: 20, lockoutAfter: 100 }
+};
+const MAX_DELAY_MS = 60 * 1000;
+const LOCKOUT_MS = 15 * 60 * 1000;
+// Counters are forgotten once this long has passed since the last failure.
+const FAILURE_WINDOW_MS = 15 * 60 * 1000;
+// Stale counters are swept after every this many failures.
+const PRUNE_EVERY = 100;
+
+let failuresSincePrune = 0;
+
+const emailKey = (email: string): string => `email:${email.toLowerCase()}`;
+const ipKey = (ip: string): string => `ip:${ip}`;
+
+const keysFor = (email: string, ip: string): { kind: string; key: string }[] => [
+    { kind: "email", key: emailKey(email) },
+    { kind: "ip", key: ipKey(ip) }
+];
+
+/**
+ * Delay required after the latest failure: none for the first few failures, then 1s, 2s, 4s... up to a minute.
+ */
+const delayAfter = (failures: number, freeAttempts: number): number => {
+    if (failures <= freeAttempts) return 0;
+    return Math.min(1000 * Math.pow(2, failures - freeAttempts - 1), MAX_DELAY_MS);
+};
+
+const isStale = (attempt: LoginAttempt, now: number): boolean => {
+    return now - attempt.lastFailureAt > FAILURE_WINDOW_MS && (attempt.lockedUntil === null || attempt.lockedUntil <= now);
+};
+
+/**
+ * Milliseconds until a key may attempt to log in again, or 0 if it may now.
+ */
+const waitFor = (kind: string, attempt: LoginAttempt | null, now: number): number => {
+    if (!attempt || isStale(attempt, now)) return 0;
+    const lockedMs = attempt.lockedUntil ? attempt.lockedUntil - now : 0;
+    const delayMs = attempt.lastFailureAt + delayAfter(attempt.failures, POLICIES[kind].freeAttempts) - now;
+    return Math.max(0, lockedMs, delayMs);
+};
+
+const tooManyAttempts = (waitMs: number): TooManyRequestsError => {
+    return new TooManyRequestsError("Too many failed login attempts, try again later", Math.ceil(waitMs / 1000));
+};
+
+/**
+ * Helper: Counts an attempt against a key, locking it out once it has failed too often within the failure window.
+ * If another login changed the counters in the meantime, the key is checked again and the count retried.
+ */
+const countAttempt = async (kind: string, key: string, now: number): Promise<void> => {
+    let saved = false;
+    while (!saved) {
+        const existing = await store.get(key);
+        const waitMs = waitFor(kind, existing, now);
+        if (waitMs > 0) {
+            throw tooManyAttempts(waitMs);
+        }
+        const failures = existing && !isStale(existing, now) ? existing.failures + 1 : 1;
+        const locked = failures >= POLICIES[kind].lockoutAfter;
+        saved = await store.replace(key, existing, {
+            failures: locked ? 0 : failures,
+            lastFailureAt: now,
+            lockedUntil: locked ? now + LOCKOUT_MS : null
+        });
+        if (saved && locked) {
+            Logger.warn(`Login locked out for ${key} after ${failures} failed attempts`);
+        }
+    }
+};
+
+/**
+ * Counts a login attempt as a failure against both the email and the client's IP address before its password is
+ * checked, so concurrent attempts can't all get past the limits before any of them has failed. recordSuccess
+ * clears the counters again if the password turns out to be right. Throws a TooManyRequestsError, carrying the
+ * seconds until the next attempt is allowed, if either is locked out or still within its delay.
+ */
+const beginLogin = async (email: string, ip: string): Promise<void> => {
+    const now = Date.now();
+    const keys = keysFor(email, ip);
+    // Check both keys before counting against either, so an attempt refused for one isn't counted against the other.
+    let waitMs = 0;
+    for (const { kind, key } of keys) {
+        waitMs = Math.max(waitMs, waitFor(kind, await store.get(key), now));
+    }
+    if (waitMs > 0) {
+        throw tooManyAttempts(waitMs);
+    }
+    for (const { kind, key } of keys) {
+        await countAttempt(kind, key, now);
+    }
+    failuresSincePrune++;
+    if (failuresSincePrune >= PRUNE_EVERY) {
+        failuresSincePrune = 0;
+        await store.prune(now - FAILURE_WINDOW_MS, now);
+    }
+};
+
+/**
+ * Resets the email's counter after a successful login, and takes the attempt back off the IP address's counter.
+ * The IP address's earlier failures stand until they expire, or an attacker could wipe them by logging into their
+ * own account between guesses at others.
+ */
+const recordSuccess = async (email: string, ip: string): Promise<void> => {
+    await store.delete(emailKey(email));
+    const key = ipKey(ip);
+    let saved = false;
+    while (!saved) {
+        const existing = await store.get(key);
+        if (!existing || existing.failures === 0) return;
+        saved = await store.replace(key, existing, { ...existing, failures: existing.failures - 1 });
+    }
+};
+
+/**
+ * Forgets every counter, e.g. when the database is reset through the backdoor.
+ */
+const clearAll = async (): Promise<void> => {
+    await store.clear();
+};
+
+export { AttemptStore, beginLogin, recordSuccess, clearAll }
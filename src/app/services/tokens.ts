@@ -0,0 +1,14 @@
+import crypto from 'crypto';
+
+const generateToken = (): string => {
+    return crypto.randomBytes(32).toString('hex');
+}
+
+/**
+ * Tokens are stored as a SHA-256 digest so a leaked table can't be replayed as credentials.
+ */
+const hashToken = (token: string): string => {
+    return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+export { generateToken, hashToken };
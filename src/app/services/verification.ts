@@ -0,0 +1,21 @@
+import * as EmailVerification from "../models/user.email.verification.model";
+import { generateToken } from "./tokens";
+import { sendMail } from "./mailer";
+
+/**
+ * Sends the user a new email verification token, replacing any earlier one. Used when an account is registered,
+ * when its email changes, and when the user asks for the email again.
+ */
+const sendVerificationEmail = async (user: { id: number, firstName: string, email: string }): Promise<void> => {
+    const token = generateToken();
+    await EmailVerification.createVerificationToken(user.id, user.email, token);
+    await sendMail({
+        to: user.email,
+        subject: "Verify your email address",
+        text: `Hi ${user.firstName},\n\n`
+            + `Please confirm this is your email address by verifying it with this token:\n\n${token}\n\n`
+            + `Until then you won't be able to post games or reviews.`
+    });
+};
+
+export { sendVerificationEmail }
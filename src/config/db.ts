@@ -47,6 +47,11 @@ const connect = async (): Promise<void> => {
                             processedSql = sql.replace(/\?/g, 'NULL');
                         }
 
+                        // SQLite has no START TRANSACTION, translate it to the equivalent BEGIN
+                        if (/^\s*start\s+transaction\s*;?\s*$/i.test(processedSql)) {
+                            processedSql = 'BEGIN TRANSACTION';
+                        }
+
                         // Handle multiple statements by splitting them
                         const statements = processedSql.split(';').filter(stmt => stmt.trim().length > 0);
 
@@ -101,7 +106,13 @@ const connect = async (): Promise<void> => {
                         }
                     });
                 },
+                // SQLite has a single connection, so a "pooled" connection just runs everything on it, with the
+                // transaction methods of a mysql2 connection.
                 getConnection: () => Promise.resolve<any>({
+                    query: (sql: string, params?: any[]) => state.pool.query(sql, params),
+                    beginTransaction: () => state.pool.query('BEGIN TRANSACTION'),
+                    commit: () => state.pool.query('COMMIT'),
+                    rollback: () => state.pool.query('ROLLBACK'),
                     release: () => { /* No action needed for SQLite */ }
                 }),
                 end: () => {
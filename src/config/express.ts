@@ -1,6 +1,7 @@
 import express from "express"
 import bodyParser from "body-parser"
 import allowCrossOriginRequestsMiddleware from "../app/middleware/cors.middleware"
+import {notFoundHandler, errorHandler} from "../app/middleware/error.middleware"
 import Logger from "./logger"
 import {rootUrl} from "../app/routes/base.routes";
 
@@ -33,6 +34,11 @@ export default () => {
     require('../app/routes/backdoor.routes')(app);
     require('../app/routes/user.routes')(app);
     require('../app/routes/game.routes')(app);
+    require('../app/routes/bundle.routes')(app);
+
+    // Errors, after all routes. Anything passed to next(err) is sent as a JSON { code, message } body.
+    app.use(notFoundHandler);
+    app.use(errorHandler);
 
     return app;
 }
\ No newline at end of file
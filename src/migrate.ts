@@ -0,0 +1,40 @@
+import { connect, getPool } from './config/db';
+import Logger from './config/logger'
+import * as Migrations from './app/models/migration.model';
+
+// Command line entry point for managing the database schema, see `npm run migrate -- help`
+const usage = 'Usage: npm run migrate -- [status | up | down [steps]]';
+
+async function main() {
+    const [command = 'status', stepsArg] = process.argv.slice(2);
+    await connect();
+    try {
+        switch (command) {
+            case 'status':
+                for (const migration of await Migrations.getStatus()) {
+                    const state = migration.applied ? `applied ${migration.appliedAt}` : 'pending';
+                    Logger.info(`${String(migration.version).padStart(3, '0')}_${migration.name}: ${state}`);
+                }
+                break;
+            case 'up':
+                Logger.info(`Applied ${await Migrations.migrateUp()} migration(s)`);
+                break;
+            case 'down':
+                const steps = stepsArg ? parseInt(stepsArg, 10) : 1;
+                if (isNaN(steps) || steps < 1) {
+                    throw new Error(usage);
+                }
+                Logger.info(`Reverted ${await Migrations.migrateDown(steps)} migration(s)`);
+                break;
+            default:
+                Logger.info(usage);
+        }
+    } finally {
+        await getPool().end();
+    }
+}
+
+main().catch(err => {
+    Logger.error(err);
+    process.exitCode = 1;
+});
@@ -1,39 +1,33 @@
 import express from './config/express'
 import { connect } from './config/db';
 import Logger from './config/logger'
-import fs from 'fs/promises';
-import path from 'path';
 import * as Backdoor from './app/models/backdoor.model';
+import * as Migrations from './app/models/migration.model';
+import * as SimilarGames from './app/models/game.similar.model';
+import * as Pricing from './app/models/game.price.model';
 
 const app = express();
 const port = process.env.PORT || 4941;
 
-// Check if database needs initialization
+// Bring the database schema up to date, loading sample data if it was just created
 async function checkDatabaseInitialization() {
-    const dbPath = process.env.SQLITE_DB_PATH || './storage/game_api.db';
+    const isNew = await Migrations.isEmpty();
+    if (isNew) {
+        Logger.info('Database is empty, will initialize');
+    }
 
-    try {
-        // Check if the database file exists and has content
+    const applied = await Migrations.migrateUp();
+    Logger.info(applied > 0 ? `Applied ${applied} database migration(s)` : 'Database schema is up to date');
+
+    if (isNew) {
+        // Always resample the database when it's first created
         try {
-            const stats = await fs.stat(dbPath);
-            if (stats.size > 0) {
-                Logger.info('Database already exists, skipping initialization');
-                return;
-            }
+            await Backdoor.loadData();
+            Logger.info('Database initialization complete with sample data!');
         } catch (err) {
-            // File doesn't exist, we'll initialize it
-            Logger.info('Database file not found, will initialize');
+            Logger.error('Error loading sample data:');
+            Logger.error(err);
         }
-
-        // Initialize the database
-        Logger.info('Initializing database...');
-        await Backdoor.resetDb();
-        // Always resample the database when it's first created
-        await Backdoor.loadData();
-        Logger.info('Database initialization complete with sample data!');
-    } catch (err) {
-        Logger.error('Error initializing database:');
-        Logger.error(err);
     }
 }
 
@@ -42,16 +36,24 @@ async function main() {
     try {
         // Connect to database
         await connect();
+    } catch (err) {
+        Logger.error('Unable to connect to database.')
+        Logger.error(err)
+        process.exit(1);
+    }
 
-        // Initialize database if needed
+    try {
+        // Initialize or migrate the database if needed
         await checkDatabaseInitialization();
 
         // Start the server
         app.listen(port, () => {
             Logger.info('Listening on port: ' + port)
         });
+        SimilarGames.scheduleSimilarGamesRefresh();
+        Pricing.scheduleDiscountNotifications();
     } catch (err) {
-        Logger.error('Unable to connect to database.')
+        Logger.error('Unable to migrate database.')
         Logger.error(err)
         process.exit(1);
     }